@@ -6,14 +6,23 @@ export default defineBuildConfig({
         "src/cli/index",
         "src/config/index",
         "src/overrides/incrementalCache/azure-blob",
+        "src/overrides/incrementalCache/memory-lru",
+        "src/overrides/incrementalCache/azure-redis",
+        "src/overrides/composableCache/azure-blob",
         "src/overrides/tagCache/azure-table",
+        "src/overrides/tagCache/azure-table-nextmode",
+        "src/overrides/tagCache/azure-redis",
+        "src/overrides/tagCache/azure-cosmos",
         "src/overrides/queue/azure-queue",
+        "src/overrides/queue/azure-service-bus",
+        "src/overrides/queue/direct",
         "src/overrides/imageLoader/azure-blob",
         "src/overrides/imageOptimization/azure-cached",
         "src/adapters/wrappers/azure-functions",
         "src/adapters/wrappers/azure-image-optimization",
         "src/adapters/converters/azure-http",
         "src/adapters/image-optimization",
+        "src/adapters/revalidation",
     ],
     declaration: true,
     clean: true,
@@ -44,6 +53,10 @@ export default defineBuildConfig({
         "@azure/storage-blob",
         "@azure/data-tables",
         "@azure/storage-queue",
+        "@azure/service-bus",
+        "@azure/identity",
+        "@azure/cosmos",
+        "redis",
         "@azure/functions",
         "commander",
     ],
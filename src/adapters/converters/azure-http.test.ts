@@ -0,0 +1,62 @@
+import { Buffer } from "node:buffer";
+import type { InternalResult } from "@opennextjs/aws/types/open-next.js";
+import { describe, expect, it } from "vitest";
+import { PDF_BYTES, PNG_BYTES } from "../../test/fixtures.js";
+import converter from "./azure-http.js";
+
+function toInternalResult(
+    headers: Record<string, string | string[]>,
+    chunks: Uint8Array[],
+    isBase64Encoded = false
+): InternalResult {
+    return {
+        type: "core",
+        statusCode: 200,
+        headers,
+        isBase64Encoded,
+        body: new ReadableStream({
+            start(controller) {
+                chunks.forEach(chunk => controller.enqueue(chunk));
+                controller.close();
+            },
+        }),
+    } as InternalResult;
+}
+
+describe("azure-http convertTo", () => {
+    it("returns text bodies as a string", async () => {
+        const response = await converter.convertTo(
+            toInternalResult({ "content-type": "text/html" }, [Buffer.from("<h1>"), Buffer.from("Hello</h1>")])
+        );
+
+        expect(response.body).toBe("<h1>Hello</h1>");
+    });
+
+    it.each([
+        ["PDF", "application/pdf", PDF_BYTES],
+        ["PNG", "image/png", PNG_BYTES],
+    ])("round-trips %s bodies split across chunks", async (_name, contentType, bytes) => {
+        const response = await converter.convertTo(
+            toInternalResult({ "content-type": contentType }, [bytes.subarray(0, 20), bytes.subarray(20)])
+        );
+
+        expect(Buffer.isBuffer(response.body)).toBe(true);
+        expect(Buffer.compare(response.body as Buffer, bytes)).toBe(0);
+    });
+
+    it("keeps bodies flagged isBase64Encoded as a Buffer", async () => {
+        const response = await converter.convertTo(
+            toInternalResult({ "content-type": "application/json" }, [Buffer.from("{}")], true)
+        );
+
+        expect(response.body).toEqual(Buffer.from("{}"));
+    });
+
+    it("keeps Set-Cookie values apart", async () => {
+        const response = await converter.convertTo(
+            toInternalResult({ "set-cookie": ["a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT", "b=2"] }, [])
+        );
+
+        expect(response.headers["set-cookie"]).toEqual(["a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT", "b=2"]);
+    });
+});
@@ -2,6 +2,7 @@ import type { HttpRequest } from "@azure/functions";
 import type { InternalEvent, InternalResult } from "@opennextjs/aws/types/open-next.js";
 import type { Converter } from "@opennextjs/aws/types/overrides.js";
 import { Buffer } from "node:buffer";
+import { toResponseBody } from "./body.js";
 
 /**
  * Converts Azure HTTP requests to OpenNext InternalEvent format
@@ -22,26 +23,39 @@ async function convertFromAzureHttp(request: HttpRequest): Promise<InternalEvent
         }
     });
 
+    // v4 requests expose a Headers instance, v3 requests a plain object
+    const headerEntries: Iterable<[string, string | string[]]> =
+        typeof request.headers.entries === "function"
+            ? request.headers.entries()
+            : Object.entries(request.headers as unknown as Record<string, string | string[]>);
+
+    // Repeated headers are combined, "Cookie" lines with "; " as if the client had sent a single one
     const headers: Record<string, string> = {};
-    for (const [key, value] of Object.entries(request.headers)) {
-        if (value) {
-            headers[key.toLowerCase()] = value;
+    for (const [rawKey, rawValue] of headerEntries) {
+        const key = rawKey.toLowerCase();
+        const values = (Array.isArray(rawValue) ? rawValue : [rawValue]).filter(Boolean);
+        if (values.length === 0) {
+            continue;
         }
+        if (headers[key]) {
+            values.unshift(headers[key]);
+        }
+        headers[key] = values.join(key === "cookie" ? "; " : ", ");
     }
 
     const cookies: Record<string, string> = {};
-    const cookieHeader = headers.cookie;
-    if (cookieHeader) {
-        cookieHeader.split(";").forEach(cookie => {
-            const [key, ...valueParts] = cookie.trim().split("=");
+    if (headers.cookie) {
+        const pairs = splitCookieHeader(headers.cookie);
+        for (const cookie of pairs) {
+            const [key, ...valueParts] = cookie.split("=");
             if (key) {
                 cookies[key] = valueParts.join("=");
             }
-        });
+        }
+        headers.cookie = pairs.join("; ");
     }
 
-    const body =
-        request.method !== "GET" && request.method !== "HEAD" ? Buffer.from(await request.arrayBuffer()) : undefined;
+    const body = request.method !== "GET" && request.method !== "HEAD" ? await readRequestBody(request) : undefined;
 
     return {
         type: "core",
@@ -56,6 +70,28 @@ async function convertFromAzureHttp(request: HttpRequest): Promise<InternalEvent
     };
 }
 
+/**
+ * Splits a Cookie header into "name=value" pairs. Headers combines repeated Cookie lines with ", ",
+ * so a comma followed by another "name=" also starts a new pair.
+ */
+function splitCookieHeader(cookieHeader: string): string[] {
+    return cookieHeader
+        .split(/;|,(?=\s*[^;,=\s]+=)/)
+        .map(cookie => cookie.trim())
+        .filter(Boolean);
+}
+
+/**
+ * v4 requests expose the body through arrayBuffer(), v3 requests as rawBody.
+ */
+async function readRequestBody(request: HttpRequest): Promise<Buffer> {
+    if (typeof request.arrayBuffer === "function") {
+        return Buffer.from(await request.arrayBuffer());
+    }
+    const rawBody = (request as unknown as { rawBody?: string | Buffer }).rawBody;
+    return Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody ?? "");
+}
+
 function normalizePath(pathname: string): string {
     if (!pathname || pathname === "/" || pathname === "") {
         return "/";
@@ -69,29 +105,30 @@ function normalizePath(pathname: string): string {
 }
 
 /**
- * Converts OpenNext InternalResult to Azure HTTP response
+ * Converts OpenNext InternalResult to Azure HTTP response, in the form assigned to context.res in v3
+ * (multi-value Set-Cookie header). v4 callers move the cookies to the cookies array (see toV4Response).
  */
 async function convertToAzureHttp(result: InternalResult): Promise<{
     status: number;
-    headers: Record<string, string>;
-    body?: string;
+    headers: Record<string, string | string[]>;
+    body?: string | Buffer;
 }> {
-    // Normalize response headers
-    const headers: Record<string, string> = {};
+    // Normalize response headers. Set-Cookie values are kept apart, Expires dates contain commas
+    const headers: Record<string, string | string[]> = {};
     for (const [key, value] of Object.entries(result.headers)) {
         if (value === null || value === undefined) {
             continue;
         }
 
         if (Array.isArray(value)) {
-            headers[key] = value.join(", ");
+            headers[key] = key.toLowerCase() === "set-cookie" ? value.map(String) : value.join(", ");
         } else {
             headers[key] = String(value);
         }
     }
 
     // Read the response body stream
-    let body: string | undefined;
+    let body: string | Buffer | undefined;
     if (result.body) {
         const chunks: Uint8Array[] = [];
         const reader = result.body.getReader();
@@ -109,8 +146,7 @@ async function convertToAzureHttp(result: InternalResult): Promise<{
             reader.releaseLock();
         }
 
-        const buffer = Buffer.concat(chunks);
-        body = result.isBase64Encoded ? buffer.toString("base64") : buffer.toString("utf8");
+        body = toResponseBody(Buffer.concat(chunks), headers, result.isBase64Encoded);
     }
 
     return {
@@ -0,0 +1,74 @@
+import { Buffer } from "node:buffer";
+import { describe, expect, it } from "vitest";
+import { PDF_BYTES, PNG_BYTES } from "../../test/fixtures.js";
+import { isTextContentType, toResponseBody } from "./body.js";
+
+describe("isTextContentType", () => {
+    it.each([
+        "text/html",
+        "text/plain; charset=utf-8",
+        "application/json",
+        "application/ld+json",
+        "application/xml",
+        "application/rss+xml",
+        "application/javascript",
+        "image/svg+xml",
+        "TEXT/CSS",
+    ])("treats %s as text", contentType => {
+        expect(isTextContentType(contentType)).toBe(true);
+    });
+
+    it.each([
+        "application/pdf",
+        "image/png",
+        "application/octet-stream",
+        "application/x-protobuf",
+        "font/woff2",
+        "",
+        undefined,
+    ])("treats %s as binary", contentType => {
+        expect(isTextContentType(contentType)).toBe(false);
+    });
+});
+
+describe("toResponseBody", () => {
+    it("decodes text bodies as UTF-8", () => {
+        const body = toResponseBody(Buffer.from("<p>Grüße ✓</p>"), { "content-type": "text/html; charset=utf-8" });
+
+        expect(body).toBe("<p>Grüße ✓</p>");
+    });
+
+    it("decodes JSON bodies", () => {
+        const json = JSON.stringify({ name: "café", items: [1, 2, 3] });
+
+        expect(toResponseBody(Buffer.from(json), { "Content-Type": "application/json" })).toBe(json);
+    });
+
+    it.each([
+        ["PDF", "application/pdf", PDF_BYTES],
+        ["PNG", "image/png", PNG_BYTES],
+    ])("keeps %s bodies byte for byte", (_name, contentType, bytes) => {
+        const body = toResponseBody(Buffer.from(bytes), { "content-type": contentType });
+
+        expect(Buffer.isBuffer(body)).toBe(true);
+        expect(Buffer.compare(body as Buffer, bytes)).toBe(0);
+    });
+
+    it("keeps bodies without a content type as a Buffer", () => {
+        const body = toResponseBody(Buffer.from(PNG_BYTES), {});
+
+        expect(Buffer.isBuffer(body)).toBe(true);
+    });
+
+    it("keeps bodies flagged isBase64Encoded as a Buffer, whatever the content type", () => {
+        const body = toResponseBody(Buffer.from(PDF_BYTES), { "content-type": "text/plain" }, true);
+
+        expect(Buffer.isBuffer(body)).toBe(true);
+        expect(Buffer.compare(body as Buffer, PDF_BYTES)).toBe(0);
+    });
+
+    it("returns an empty string for an empty body", () => {
+        expect(toResponseBody(Buffer.alloc(0), { "content-type": "image/png" })).toBe("");
+        expect(toResponseBody(Buffer.alloc(0), {}, true)).toBe("");
+    });
+});
@@ -0,0 +1,42 @@
+import { Buffer } from "node:buffer";
+
+// Types sent as text besides text/*, structured syntax suffixes (+json, +xml) included
+const TEXT_CONTENT_TYPES = [
+    /^application\/(.+\+)?json$/,
+    /^application\/(.+\+)?xml$/,
+    /^application\/(x-)?javascript$/,
+    /^application\/ecmascript$/,
+    /^application\/x-www-form-urlencoded$/,
+    /^image\/svg\+xml$/,
+];
+
+export function isTextContentType(contentType: string | undefined): boolean {
+    const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+    if (!mimeType) {
+        return false;
+    }
+    return mimeType.startsWith("text/") || TEXT_CONTENT_TYPES.some(pattern => pattern.test(mimeType));
+}
+
+/**
+ * Body of a buffered response: a string for text content types, the raw bytes otherwise.
+ *
+ * Binary responses (PDF, images, archives, protobuf) and bodies OpenNext flags with isBase64Encoded
+ * are sent as a Buffer, which the Functions host writes byte for byte. A body without
+ * content type is kept as a Buffer too, unless it is empty.
+ */
+export function toResponseBody(
+    body: Buffer,
+    headers: Record<string, unknown>,
+    isBase64Encoded = false
+): string | Buffer {
+    const contentType = Object.entries(headers).find(([key]) => key.toLowerCase() === "content-type")?.[1];
+
+    if (body.length === 0) {
+        return "";
+    }
+    if (isBase64Encoded || !isTextContentType(typeof contentType === "string" ? contentType : undefined)) {
+        return body;
+    }
+    return body.toString("utf8");
+}
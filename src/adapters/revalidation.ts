@@ -0,0 +1,142 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Azure Queue Revalidation Worker (v3 model - function.json based)
+ *
+ * Consumes the messages written by AzureQueueRevalidation.send and re-renders the page.
+ *
+ * Flow:
+ * 1. revalidateTag('product') / stale ISR page → message pushed to "nextjsrevalidation" queue
+ * 2. Queue trigger invokes this handler with the decoded message
+ * 3. HEAD request to https://{host}{url} with the OpenNext revalidation headers
+ * 4. Next.js re-renders the page and writes the fresh entry to the incremental cache
+ *
+ * Returning normally lets the Functions host delete the message. Throwing leaves it on the
+ * queue to be retried, and after maxDequeueCount attempts it is moved to "<queue>-poison".
+ *
+ * With the "azure-service-bus" queue the same handler is bound to a Service Bus trigger
+ * (see prepareFunctions): the host passes the parsed JSON body, and failed messages are
+ * retried up to the queue's maxDeliveryCount and then dead-lettered.
+ *
+ * This file is copied next to the server function's index.mjs by prepareFunctions, so the
+ * .next directory it reads the prerender manifest from sits beside it.
+ */
+
+// Status codes that mean Next.js handled the revalidation request
+const ALLOWED_STATUS_CODES = [200, 307, 308, 404];
+
+export interface RevalidationMessage {
+    host: string;
+    url: string;
+    lastModified?: number;
+    eTag?: string;
+    deduplicationId?: string;
+    groupId?: string;
+    /** storage.keyPrefix of the app that sent the message */
+    keyPrefix?: string;
+}
+
+let previewModeId: string | undefined;
+
+function getPreviewModeId(): string {
+    if (!previewModeId) {
+        const currentDir = path.dirname(fileURLToPath(import.meta.url));
+        const manifestPath = path.join(currentDir, ".next/prerender-manifest.json");
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+        previewModeId = manifest.preview.previewModeId as string;
+    }
+    return previewModeId;
+}
+
+/**
+ * Decodes the queue payload written by AzureQueueRevalidation.send.
+ *
+ * The Functions host base64-decodes the message and parses it when it is JSON, but depending
+ * on the extension's messageEncoding setting we may still receive the raw base64 string.
+ */
+export function decodeRevalidationMessage(payload: unknown): RevalidationMessage {
+    let message: any = payload;
+
+    if (Buffer.isBuffer(message)) {
+        message = message.toString("utf8");
+    }
+
+    if (typeof message === "string") {
+        const text = message.trim().startsWith("{") ? message : Buffer.from(message, "base64").toString("utf8");
+        message = JSON.parse(text);
+    }
+
+    if (!message || typeof message.host !== "string" || typeof message.url !== "string") {
+        throw new Error("Invalid revalidation message: host and url are required");
+    }
+
+    return message as RevalidationMessage;
+}
+
+/**
+ * Whether the Host header (with an optional port) names the local machine, which is served over plain
+ * HTTP in development: localhost and its subdomains, 127.0.0.0/8 and [::1].
+ */
+export function isLoopbackHost(host: string): boolean {
+    const value = host.trim().toLowerCase();
+    if (value === "::1") {
+        // Unbracketed IPv6 has no port to strip
+        return true;
+    }
+
+    const hostname = value.replace(/:\d+$/, "");
+    return (
+        hostname === "localhost" ||
+        hostname.endsWith(".localhost") ||
+        /^127(\.\d{1,3}){3}$/.test(hostname) ||
+        hostname === "[::1]"
+    );
+}
+
+export async function revalidate(message: RevalidationMessage): Promise<void> {
+    const { host, url } = message;
+    const protocol = isLoopbackHost(host) ? "http" : "https";
+
+    // HEAD is enough to trigger the re-render, we don't need the body.
+    // x-prerender-revalidate makes Next.js revalidate in a blocking way.
+    const response = await fetch(`${protocol}://${host}${url}`, {
+        method: "HEAD",
+        headers: {
+            "x-prerender-revalidate": getPreviewModeId(),
+            "x-isr": "1",
+        },
+        redirect: "manual",
+    });
+
+    if (!ALLOWED_STATUS_CODES.includes(response.status) || response.headers.get("x-nextjs-cache") !== "REVALIDATED") {
+        throw new Error(
+            `Failed to revalidate ${url} (status: ${response.status}, x-nextjs-cache: ${response.headers.get("x-nextjs-cache") ?? "none"})`
+        );
+    }
+}
+
+export async function handler(_context: any, payload: unknown): Promise<void> {
+    const message = decodeRevalidationMessage(payload);
+
+    // Deploy gives each key prefix its own queue. Should another app's message still arrive here, never
+    // re-render its page, and throw so the message stays on the queue for the app it belongs to
+    const keyPrefix = process.env.AZURE_STORAGE_KEY_PREFIX || undefined;
+    if (message.keyPrefix !== keyPrefix) {
+        throw new Error(
+            `[Revalidation] Message for namespace "${message.keyPrefix ?? ""}" received by this app ("${keyPrefix ?? ""}"), check AZURE_QUEUE_NAME`
+        );
+    }
+
+    process.stderr.write(`[Revalidation] Revalidating ${message.host}${message.url}\n`);
+
+    try {
+        await revalidate(message);
+        process.stderr.write(`[Revalidation] ✓ Revalidated ${message.url}\n`);
+    } catch (error: any) {
+        process.stderr.write(`[Revalidation] ✗ ${error.message}\n`);
+        // Rethrow so the message stays on the queue and is retried
+        throw error;
+    }
+}
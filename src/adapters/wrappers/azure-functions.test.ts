@@ -0,0 +1,207 @@
+import { Buffer } from "node:buffer";
+import type { Readable } from "node:stream";
+import type { HttpRequest, HttpResponseInit } from "@azure/functions";
+import type { InternalEvent, InternalResult, StreamCreator } from "@opennextjs/aws/types/open-next.js";
+import type { OpenNextHandler } from "@opennextjs/aws/types/overrides.js";
+import { describe, expect, it } from "vitest";
+import converter from "../converters/azure-http.js";
+import { PDF_BYTES, PNG_BYTES } from "../../test/fixtures.js";
+import azureFunctions from "./azure-functions.js";
+
+interface FakeResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    cookies?: string[];
+    chunks?: (string | Buffer)[];
+}
+
+/**
+ * OpenNext handler writing a fixed response through the stream creator, the way the server function does.
+ * `beforeLastChunk` lets a test observe the response while the handler is still writing.
+ */
+function fakeHandler(
+    response: FakeResponse,
+    beforeLastChunk?: () => Promise<void>
+): OpenNextHandler<InternalEvent, InternalResult> {
+    return async (_event, options) => {
+        const streamCreator = options?.streamCreator as StreamCreator;
+        const writable = streamCreator.writeHeaders({
+            statusCode: response.statusCode,
+            headers: response.headers,
+            cookies: response.cookies ?? [],
+        });
+
+        const chunks = response.chunks ?? [];
+        for (const [i, chunk] of chunks.entries()) {
+            if (i === chunks.length - 1) {
+                await beforeLastChunk?.();
+            }
+            writable.write(chunk);
+        }
+        await new Promise<void>(resolve => writable.end(resolve));
+
+        return { type: "core", statusCode: response.statusCode, headers: response.headers } as InternalResult;
+    };
+}
+
+async function invokeV3(response: FakeResponse): Promise<any> {
+    const wrapped = await azureFunctions.wrapper(fakeHandler(response), converter);
+    const context: { res?: any } = {};
+    // v3 requests carry plain header objects
+    await wrapped(context, { method: "GET", url: "https://example.com/file", headers: { host: "example.com" } });
+    return context.res;
+}
+
+function v4Request(): HttpRequest {
+    // v4 requests carry a Headers instance
+    return {
+        method: "GET",
+        url: "https://example.com/file",
+        headers: new Headers({ host: "example.com" }),
+    } as unknown as HttpRequest;
+}
+
+async function readBody(body: HttpResponseInit["body"]): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body as Readable) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+describe("azure-functions wrapper, buffered (v3)", () => {
+    it("sends text bodies as a string", async () => {
+        const res = await invokeV3({
+            statusCode: 200,
+            headers: { "content-type": "text/html; charset=utf-8" },
+            chunks: ["<h1>", "Grüße</h1>"],
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toBe("<h1>Grüße</h1>");
+    });
+
+    it("sends JSON bodies as a string", async () => {
+        const res = await invokeV3({
+            statusCode: 200,
+            headers: { "content-type": "application/json" },
+            chunks: ['{"ok":', "true}"],
+        });
+
+        expect(JSON.parse(res.body)).toEqual({ ok: true });
+    });
+
+    it.each([
+        ["PDF", "application/pdf", PDF_BYTES],
+        ["PNG", "image/png", PNG_BYTES],
+    ])("round-trips %s bodies byte for byte", async (_name, contentType, bytes) => {
+        const res = await invokeV3({
+            statusCode: 200,
+            headers: { "content-type": contentType },
+            chunks: [bytes.subarray(0, 7), bytes.subarray(7)],
+        });
+
+        expect(Buffer.isBuffer(res.body)).toBe(true);
+        expect(Buffer.compare(res.body, bytes)).toBe(0);
+    });
+
+    it("sends an empty string for an empty body", async () => {
+        const res = await invokeV3({ statusCode: 200, headers: { "content-type": "application/pdf" } });
+
+        expect(res.body).toBe("");
+    });
+
+    it("drops the body of null body statuses", async () => {
+        const res = await invokeV3({ statusCode: 304, headers: {}, chunks: ["ignored"] });
+
+        expect(res.status).toBe(304);
+        expect(res.body).toBeUndefined();
+    });
+
+    it("sends cookies as a multi-value Set-Cookie header", async () => {
+        const res = await invokeV3({
+            statusCode: 200,
+            headers: { "content-type": "text/plain" },
+            cookies: ["a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT", "b=2; HttpOnly"],
+            chunks: ["ok"],
+        });
+
+        expect(res.headers["set-cookie"]).toEqual(["a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT", "b=2; HttpOnly"]);
+    });
+});
+
+describe("azure-functions wrapper, streaming (v4)", () => {
+    it("responds once headers are written, before the body is complete", async () => {
+        let release!: () => void;
+        const lastChunkWritten = new Promise<void>(resolve => {
+            release = resolve;
+        });
+        const handler = fakeHandler(
+            { statusCode: 200, headers: { "content-type": "text/html" }, chunks: ["<p>shell</p>", "<p>rest</p>"] },
+            () => lastChunkWritten
+        );
+
+        const wrapped = await azureFunctions.wrapper(handler, converter);
+        const response = (await wrapped(v4Request(), {})) as HttpResponseInit;
+
+        expect(response.status).toBe(200);
+        expect(response.headers).toEqual({ "content-type": "text/html" });
+
+        release();
+        expect((await readBody(response.body)).toString("utf8")).toBe("<p>shell</p><p>rest</p>");
+    });
+
+    it.each([
+        ["PDF", "application/pdf", PDF_BYTES],
+        ["PNG", "image/png", PNG_BYTES],
+    ])("streams %s bodies byte for byte", async (_name, contentType, bytes) => {
+        const wrapped = await azureFunctions.wrapper(
+            fakeHandler({
+                statusCode: 200,
+                headers: { "content-type": contentType },
+                chunks: [bytes.subarray(0, 7), bytes.subarray(7)],
+            }),
+            converter
+        );
+        const response = (await wrapped(v4Request(), {})) as HttpResponseInit;
+
+        expect(Buffer.compare(await readBody(response.body), bytes)).toBe(0);
+    });
+
+    it("streams an empty body", async () => {
+        const wrapped = await azureFunctions.wrapper(
+            fakeHandler({ statusCode: 200, headers: { "content-type": "application/json" } }),
+            converter
+        );
+        const response = (await wrapped(v4Request(), {})) as HttpResponseInit;
+
+        expect((await readBody(response.body)).length).toBe(0);
+    });
+
+    it("sends a single cookie unchanged as a header", async () => {
+        const cookie = "token=YWJj==; Path=/; HttpOnly; Partitioned";
+        const wrapped = await azureFunctions.wrapper(
+            fakeHandler({ statusCode: 204, headers: {}, cookies: [cookie] }),
+            converter
+        );
+        const response = (await wrapped(v4Request(), {})) as HttpResponseInit;
+
+        expect(response.status).toBe(204);
+        expect(response.body).toBeUndefined();
+        expect(response.headers).toEqual({ "set-cookie": cookie });
+        expect(response.cookies).toBeUndefined();
+    });
+
+    it("sends several cookies in the cookies array", async () => {
+        const wrapped = await azureFunctions.wrapper(
+            fakeHandler({ statusCode: 204, headers: {}, cookies: ["session=a%20b; Path=/; HttpOnly", "theme=dark"] }),
+            converter
+        );
+        const response = (await wrapped(v4Request(), {})) as HttpResponseInit;
+
+        expect(response.cookies).toEqual([
+            { name: "session", value: "a b", path: "/", httpOnly: true },
+            { name: "theme", value: "dark" },
+        ]);
+    });
+});
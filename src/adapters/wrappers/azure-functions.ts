@@ -1,144 +1,234 @@
+import type { HttpRequest, HttpResponseInit } from "@azure/functions";
 import type { InternalEvent, InternalResult, StreamCreator } from "@opennextjs/aws/types/open-next.js";
-import type { Wrapper, WrapperHandler } from "@opennextjs/aws/types/overrides.js";
-import { Writable } from "node:stream";
+import type { Converter, OpenNextHandler, Wrapper, WrapperHandler } from "@opennextjs/aws/types/overrides.js";
+import { PassThrough, Writable } from "node:stream";
+import { toResponseBody } from "../converters/body.js";
+import { toV4Cookies } from "./cookies.js";
+import { isV4Invocation } from "./invocation.js";
+import { getStaticAssetResponse } from "./static-assets.js";
 
 // HTTP status codes that should not have a response body
 const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
 
-// Static asset patterns that should be served from blob storage
-const STATIC_ASSET_PATTERNS = [
-    /^\/_next\/static\//,
-    /^\/favicon\.ico$/,
-    /^\/robots\.txt$/,
-    /^\/sitemap\.xml$/,
-    /^\/[^\/]+\.(svg|png|jpg|jpeg|gif|webp|ico|woff|woff2|ttf|eot)$/,
-];
-
-function isStaticAssetRequest(pathname: string): boolean {
-    return STATIC_ASSET_PATTERNS.some(pattern => pattern.test(pathname));
+interface ResponsePrelude {
+    statusCode: number;
+    cookies: string[];
+    headers: Record<string, string>;
 }
 
 /**
- * Azure Functions wrapper for OpenNext (v3 model - function.json based).
+ * Set-Cookie values are never joined into one header, Expires dates contain commas.
+ * v4 responses carry a single one as a header and several in the cookies array (see toV4Cookies),
+ * v3 responses carry them as a multi-value header.
+ */
+function buildV4Response({ statusCode, cookies: setCookies, headers }: ResponsePrelude): HttpResponseInit {
+    const { setCookie, cookies } = toV4Cookies(setCookies);
+
+    return {
+        status: statusCode,
+        headers: { ...headers, ...(setCookie && { "set-cookie": setCookie }) },
+        ...(cookies && { cookies }),
+    };
+}
+
+function buildV3Headers({ cookies, headers }: ResponsePrelude): Record<string, string | string[]> {
+    const responseHeaders: Record<string, string | string[]> = { ...headers };
+
+    if (cookies.length > 0) {
+        responseHeaders["set-cookie"] = cookies;
+    }
+
+    return responseHeaders;
+}
+
+function buildErrorResponse(error: unknown): { status: number; headers: Record<string, string>; body: string } {
+    const isProduction = process.env.NODE_ENV === "production";
+
+    return {
+        status: 500,
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+            error: "Internal Server Error",
+            ...(isProduction
+                ? {}
+                : {
+                      message: error instanceof Error ? error.message : String(error),
+                      stack: error instanceof Error ? error.stack : undefined,
+                  }),
+        }),
+    };
+}
+
+// Discards the body of responses that must not have one
+function createNullWritable(): Writable {
+    return new Writable({
+        write(chunk, encoding, callback) {
+            callback();
+        },
+    });
+}
+
+/**
+ * Streaming path (v4 model - app.http with enableHttpStream).
  *
- * Adapts the Azure Functions runtime to work with OpenNext's internal event/result format.
- * Uses v3 signature: async (context, request) with context.res for response.
+ * Resolves as soon as Next.js writes the response headers, with a body stream that receives
+ * every chunk as it is produced, so Suspense boundaries and loading.tsx reach the browser
+ * while the rest of the page is still rendering.
  */
-const handler: WrapperHandler<InternalEvent, InternalResult> =
-    async (handler, converter) =>
-    async (context: any, request: any): Promise<void> => {
-        try {
-            const internalEvent = await converter.convertFrom(request);
-
-            // Redirect static assets directly to blob storage
-            // (Front Door URL rewrite doesn't work reliably with blob containers)
-            if (isStaticAssetRequest(internalEvent.rawPath)) {
-                const blobUrl = `https://${process.env.AZURE_STORAGE_ACCOUNT_NAME}.blob.core.windows.net/assets${internalEvent.rawPath}`;
-
-                const cacheControl = internalEvent.rawPath.startsWith("/_next/static/")
-                    ? "public, max-age=31536000, immutable"
-                    : "public, max-age=0, must-revalidate";
-
-                context.res = {
-                    status: 301,
-                    headers: {
-                        Location: blobUrl,
-                        "Cache-Control": cacheControl,
-                    },
-                };
-                return;
-            }
+async function handleStreaming(
+    handler: OpenNextHandler<InternalEvent, InternalResult>,
+    converter: Converter<InternalEvent, InternalResult>,
+    request: HttpRequest
+): Promise<HttpResponseInit> {
+    try {
+        const internalEvent = await converter.convertFrom(request);
+
+        const staticAsset = await getStaticAssetResponse(internalEvent, true);
+        if (staticAsset) {
+            return staticAsset;
+        }
 
-            let streamFinished: Promise<void> | null = null;
-            let resolveStream: (() => void) | null = null;
+        return await new Promise<HttpResponseInit>((resolve, reject) => {
+            let body: PassThrough | undefined;
+            let responded = false;
 
             const streamCreator: StreamCreator = {
-                writeHeaders(prelude: {
-                    statusCode: number;
-                    cookies: string[];
-                    headers: Record<string, string>;
-                }): Writable {
-                    const { statusCode, cookies, headers } = prelude;
+                writeHeaders(prelude: ResponsePrelude): Writable {
+                    const response = buildV4Response(prelude);
+                    responded = true;
+
+                    if (NULL_BODY_STATUSES.has(prelude.statusCode)) {
+                        resolve(response);
+                        return createNullWritable();
+                    }
 
-                    const responseHeaders: Record<string, string> = { ...headers };
+                    body = new PassThrough();
+                    resolve({ ...response, body });
+                    return body;
+                },
+                // Chunks are forwarded as they are written, nothing needs to be kept
+                retainChunks: false,
+            };
 
-                    if (cookies.length > 0) {
-                        responseHeaders["set-cookie"] = cookies.join(", ");
+            handler(internalEvent, { streamCreator }).then(
+                () => {
+                    if (!responded) {
+                        resolve({ status: 200, headers: { "content-type": "text/html" }, body: "" });
                     }
+                },
+                error => {
+                    if (responded) {
+                        // Headers are already sent, all we can do is abort the response
+                        body?.destroy(error);
+                    } else {
+                        reject(error);
+                    }
+                }
+            );
+        });
+    } catch (error) {
+        return buildErrorResponse(error);
+    }
+}
 
-                    if (NULL_BODY_STATUSES.has(statusCode)) {
+/**
+ * Buffered path (v3 model - function.json based).
+ *
+ * Uses v3 signature: async (context, request) with context.res for response.
+ * context.res can only be assigned once, so the whole body is collected before it is sent.
+ * Binary bodies are kept as a Buffer, only text content types are decoded (see toResponseBody).
+ */
+async function handleBuffered(
+    handler: OpenNextHandler<InternalEvent, InternalResult>,
+    converter: Converter<InternalEvent, InternalResult>,
+    context: any,
+    request: any
+): Promise<void> {
+    try {
+        const internalEvent = await converter.convertFrom(request);
+
+        const staticAsset = await getStaticAssetResponse(internalEvent, false);
+        if (staticAsset) {
+            context.res = staticAsset;
+            return;
+        }
+
+        let streamFinished: Promise<void> | null = null;
+        let resolveStream: (() => void) | null = null;
+
+        const streamCreator: StreamCreator = {
+            writeHeaders(prelude: ResponsePrelude): Writable {
+                const { statusCode } = prelude;
+                const responseHeaders = buildV3Headers(prelude);
+
+                if (NULL_BODY_STATUSES.has(statusCode)) {
+                    context.res = {
+                        status: statusCode,
+                        headers: responseHeaders,
+                    };
+
+                    return createNullWritable();
+                }
+
+                const chunks: Buffer[] = [];
+
+                streamFinished = new Promise(resolve => {
+                    resolveStream = resolve;
+                });
+
+                return new Writable({
+                    write(chunk: Buffer, encoding, callback) {
+                        chunks.push(chunk);
+                        callback();
+                    },
+                    final(callback) {
                         context.res = {
                             status: statusCode,
                             headers: responseHeaders,
+                            body: toResponseBody(Buffer.concat(chunks), responseHeaders),
                         };
 
-                        return new Writable({
-                            write(chunk, encoding, callback) {
-                                callback();
-                            },
-                        });
-                    }
-
-                    const chunks: Buffer[] = [];
-
-                    streamFinished = new Promise(resolve => {
-                        resolveStream = resolve;
-                    });
-
-                    return new Writable({
-                        write(chunk: Buffer, encoding, callback) {
-                            chunks.push(chunk);
-                            callback();
-                        },
-                        final(callback) {
-                            const body = Buffer.concat(chunks);
-                            const bodyString = body.toString("utf8");
-
-                            context.res = {
-                                status: statusCode,
-                                headers: responseHeaders,
-                                body: bodyString,
-                            };
-
-                            callback();
-                            resolveStream?.();
-                        },
-                    });
-                },
-                retainChunks: true,
-            };
-
-            await handler(internalEvent, { streamCreator });
+                        callback();
+                        resolveStream?.();
+                    },
+                });
+            },
+            retainChunks: true,
+        };
 
-            // Wait for the stream to finish writing to context.res
-            if (streamFinished) {
-                await streamFinished;
-            }
+        await handler(internalEvent, { streamCreator });
 
-            if (!context.res) {
-                context.res = {
-                    status: 200,
-                    headers: { "content-type": "text/html" },
-                    body: "",
-                };
-            }
-        } catch (error) {
-            const isProduction = process.env.NODE_ENV === "production";
+        // Wait for the stream to finish writing to context.res
+        if (streamFinished) {
+            await streamFinished;
+        }
 
+        if (!context.res) {
             context.res = {
-                status: 500,
-                headers: { "content-type": "application/json" },
-                body: JSON.stringify({
-                    error: "Internal Server Error",
-                    ...(isProduction
-                        ? {}
-                        : {
-                              message: error instanceof Error ? error.message : String(error),
-                              stack: error instanceof Error ? error.stack : undefined,
-                          }),
-                }),
+                status: 200,
+                headers: { "content-type": "text/html" },
+                body: "",
             };
         }
+    } catch (error) {
+        context.res = buildErrorResponse(error);
+    }
+}
+
+/**
+ * Azure Functions wrapper for OpenNext.
+ *
+ * Adapts the Azure Functions runtime to work with OpenNext's internal event/result format.
+ * Streams the response when invoked through the v4 programming model (the app must call
+ * app.setup({ enableHttpStream: true })), and falls back to a buffered response on v3.
+ */
+const handler: WrapperHandler<InternalEvent, InternalResult> =
+    async (handler, converter) =>
+    async (...args: any[]): Promise<HttpResponseInit | void> => {
+        if (isV4Invocation(args)) {
+            return handleStreaming(handler, converter, args[0]);
+        }
+        return handleBuffered(handler, converter, args[0], args[1]);
     };
 
 export default {
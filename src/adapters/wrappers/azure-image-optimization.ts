@@ -1,25 +1,27 @@
 import type { InternalEvent, InternalResult } from "@opennextjs/aws/types/open-next.js";
-import type { WrapperHandler } from "@opennextjs/aws/types/overrides.js";
+import type { Converter, OpenNextHandler, WrapperHandler } from "@opennextjs/aws/types/overrides.js";
 import { Writable, Readable } from "node:stream";
 import { createHash } from "node:crypto";
-import { BlobServiceClient, BlockBlobClient } from "@azure/storage-blob";
+import type { BlockBlobClient } from "@azure/storage-blob";
+import type { HttpResponseInit } from "@azure/functions";
+import { createBlobServiceClient } from "../../config/credentials.js";
+import { untilFirstByte, withResilience } from "../../config/resilience.js";
+import { getBuildId, namespaceKey } from "../../config/index.js";
+import { toV4Response } from "./cookies.js";
+import { isV4Invocation } from "./invocation.js";
 
 const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
 
-const { AZURE_STORAGE_CONNECTION_STRING, AZURE_STORAGE_ACCOUNT_NAME } = process.env;
 const CACHE_CONTAINER = "optimized-images";
 
 function getBlobClient(key: string): BlockBlobClient {
-    if (!AZURE_STORAGE_CONNECTION_STRING && !AZURE_STORAGE_ACCOUNT_NAME) {
+    const blobServiceClient = createBlobServiceClient();
+    if (!blobServiceClient) {
         throw new Error("Azure Storage connection string or account name must be defined");
     }
 
-    const blobServiceClient = AZURE_STORAGE_CONNECTION_STRING
-        ? BlobServiceClient.fromConnectionString(AZURE_STORAGE_CONNECTION_STRING)
-        : new BlobServiceClient(`https://${AZURE_STORAGE_ACCOUNT_NAME}.blob.core.windows.net`);
-
     const containerClient = blobServiceClient.getContainerClient(CACHE_CONTAINER);
-    return containerClient.getBlockBlobClient(key);
+    return containerClient.getBlockBlobClient(namespaceKey(key));
 }
 
 function computeCacheKey(event: InternalEvent): string {
@@ -36,23 +38,22 @@ function computeCacheKey(event: InternalEvent): string {
 async function getCachedImage(cacheKey: string): Promise<Buffer | null> {
     try {
         const blobClient = getBlobClient(cacheKey);
-        const exists = await blobClient.exists();
-
-        if (!exists) {
-            return null;
-        }
-
-        const downloadResponse = await blobClient.download();
-
-        if (!downloadResponse.readableStreamBody) {
-            return null;
-        }
+        // A missing image fails the download with 404, which is not retried
+        return await withResilience("blob", async abortSignal => {
+            const downloadResponse = await untilFirstByte(abortSignal, signal =>
+                blobClient.download(0, undefined, { abortSignal: signal })
+            );
+
+            if (!downloadResponse.readableStreamBody) {
+                return null;
+            }
 
-        const chunks: Buffer[] = [];
-        for await (const chunk of downloadResponse.readableStreamBody) {
-            chunks.push(Buffer.from(chunk));
-        }
-        return Buffer.concat(chunks);
+            const chunks: Buffer[] = [];
+            for await (const chunk of downloadResponse.readableStreamBody) {
+                chunks.push(Buffer.from(chunk));
+            }
+            return Buffer.concat(chunks);
+        });
     } catch (error) {
         return null;
     }
@@ -61,127 +62,150 @@ async function getCachedImage(cacheKey: string): Promise<Buffer | null> {
 async function setCachedImage(cacheKey: string, buffer: Buffer, contentType: string): Promise<void> {
     try {
         const blobClient = getBlobClient(cacheKey);
-        await blobClient.upload(buffer, buffer.length, {
-            blobHTTPHeaders: {
-                blobContentType: contentType,
-                blobCacheControl: "public,max-age=31536000,immutable",
-            },
-        });
+        const buildId = getBuildId();
+        await withResilience("blob", abortSignal =>
+            blobClient.upload(buffer, buffer.length, {
+                abortSignal,
+                blobHTTPHeaders: {
+                    blobContentType: contentType,
+                    blobCacheControl: "public,max-age=31536000,immutable",
+                },
+                // Lets `cache prune` remove images cached by old builds
+                metadata: buildId ? { buildid: buildId } : undefined,
+            })
+        );
         process.stderr.write(`[ImageCache] ✓ Cached ${buffer.length} bytes\n`);
     } catch (error: any) {
         process.stderr.write(`[ImageCache] ✗ Cache failed: ${error.message}\n`);
     }
 }
 
-/**
- * Azure Functions wrapper for Image Optimization (v3 model - function.json based).
- *
- * Adapts the Azure Functions runtime to work with OpenNext's image optimization handler.
- * Uses v3 signature: async (context, request) with context.res for response.
- */
-const handler: WrapperHandler<InternalEvent, InternalResult> =
-    async (handler, converter) =>
-    async (context: any, request: any): Promise<void> => {
-        try {
-            const internalEvent = await converter.convertFrom(request);
-
-            // Check cache first
-            const cacheKey = computeCacheKey(internalEvent);
-            const cachedBuffer = await getCachedImage(cacheKey);
-            if (cachedBuffer) {
-                process.stderr.write(`[ImageCache] ✓ Cache HIT\n`);
-                context.res = {
-                    status: 200,
-                    headers: {
-                        "Content-Type": "image/webp",
-                        "Cache-Control": "public,max-age=31536000,immutable",
-                    },
-                    body: cachedBuffer,
-                };
-                return;
-            }
-
-            process.stderr.write(`[ImageCache] Cache MISS - processing...\n`);
-
-            let streamFinished: Promise<void> | null = null;
-            let resolveStream: (() => void) | null = null;
-            let processedBuffer: Buffer | null = null;
-            let responseContentType = "image/webp";
+async function handleImageRequest(
+    handler: OpenNextHandler<InternalEvent, InternalResult>,
+    converter: Converter<InternalEvent, InternalResult>,
+    context: any,
+    request: any
+): Promise<void> {
+    try {
+        const internalEvent = await converter.convertFrom(request);
 
-            const streamCreator = {
-                writeHeaders(prelude: {
-                    statusCode: number;
-                    cookies: string[];
-                    headers: Record<string, string>;
-                }): Writable {
-                    const { statusCode, cookies, headers } = prelude;
+        // Check cache first
+        const cacheKey = computeCacheKey(internalEvent);
+        const cachedBuffer = await getCachedImage(cacheKey);
+        if (cachedBuffer) {
+            process.stderr.write(`[ImageCache] ✓ Cache HIT\n`);
+            context.res = {
+                status: 200,
+                headers: {
+                    "Content-Type": "image/webp",
+                    "Cache-Control": "public,max-age=31536000,immutable",
+                },
+                body: cachedBuffer,
+            };
+            return;
+        }
 
-                    responseContentType = headers["Content-Type"] || headers["content-type"] || "image/webp";
+        process.stderr.write(`[ImageCache] Cache MISS - processing...\n`);
+
+        let streamFinished: Promise<void> | null = null;
+        let resolveStream: (() => void) | null = null;
+        let processedBuffer: Buffer | null = null;
+        let responseContentType = "image/webp";
+
+        const streamCreator = {
+            writeHeaders(prelude: {
+                statusCode: number;
+                cookies: string[];
+                headers: Record<string, string>;
+            }): Writable {
+                const { statusCode, cookies, headers } = prelude;
+
+                responseContentType = headers["Content-Type"] || headers["content-type"] || "image/webp";
+
+                // Set-Cookie values stay separate, Expires dates contain commas
+                const responseHeaders: Record<string, string | string[]> = { ...headers };
+                if (cookies.length > 0) {
+                    responseHeaders["set-cookie"] = cookies;
+                }
+
+                if (NULL_BODY_STATUSES.has(statusCode)) {
+                    context.res = {
+                        status: statusCode,
+                        headers: responseHeaders,
+                    };
+                    return new Writable({
+                        write(_chunk, _encoding, callback) {
+                            callback();
+                        },
+                    });
+                }
 
-                    const responseHeaders: Record<string, string> = { ...headers };
-                    if (cookies.length > 0) {
-                        responseHeaders["set-cookie"] = cookies.join(", ");
-                    }
+                streamFinished = new Promise(resolve => {
+                    resolveStream = resolve;
+                });
 
-                    if (NULL_BODY_STATUSES.has(statusCode)) {
+                const chunks: Buffer[] = [];
+                const writable = new Writable({
+                    write(chunk, _encoding, callback) {
+                        chunks.push(Buffer.from(chunk));
+                        callback();
+                    },
+                    final(callback) {
+                        const body = Buffer.concat(chunks);
+                        processedBuffer = body;
                         context.res = {
                             status: statusCode,
                             headers: responseHeaders,
+                            body,
                         };
-                        return new Writable({
-                            write(_chunk, _encoding, callback) {
-                                callback();
-                            },
-                        });
-                    }
-
-                    streamFinished = new Promise(resolve => {
-                        resolveStream = resolve;
-                    });
+                        callback();
+                        resolveStream?.();
+                    },
+                });
 
-                    const chunks: Buffer[] = [];
-                    const writable = new Writable({
-                        write(chunk, _encoding, callback) {
-                            chunks.push(Buffer.from(chunk));
-                            callback();
-                        },
-                        final(callback) {
-                            const body = Buffer.concat(chunks);
-                            processedBuffer = body;
-                            context.res = {
-                                status: statusCode,
-                                headers: responseHeaders,
-                                body,
-                            };
-                            callback();
-                            resolveStream?.();
-                        },
-                    });
+                return writable;
+            },
+        };
 
-                    return writable;
-                },
-            };
+        await handler(internalEvent, { streamCreator });
 
-            await handler(internalEvent, { streamCreator });
+        if (streamFinished) {
+            await streamFinished;
+        }
 
-            if (streamFinished) {
-                await streamFinished;
-            }
+        // Cache the processed image
+        if (processedBuffer && responseContentType) {
+            await setCachedImage(cacheKey, processedBuffer, responseContentType);
+        }
+    } catch (error: any) {
+        console.error("Image optimization error:", error);
+        context.res = {
+            status: 500,
+            headers: {
+                "Content-Type": "text/plain",
+            },
+            body: "Internal server error",
+        };
+    }
+}
 
-            // Cache the processed image
-            if (processedBuffer && responseContentType) {
-                await setCachedImage(cacheKey, processedBuffer, responseContentType);
-            }
-        } catch (error: any) {
-            console.error("Image optimization error:", error);
-            context.res = {
-                status: 500,
-                headers: {
-                    "Content-Type": "text/plain",
-                },
-                body: "Internal server error",
-            };
+/**
+ * Azure Functions wrapper for Image Optimization.
+ *
+ * Adapts the Azure Functions runtime to work with OpenNext's image optimization handler.
+ * Optimized images are sent whole (they are cached as a single blob anyway):
+ * - v3 model (function.json): async (context, request) with context.res for response
+ * - v4 model (app.http): async (request, context) returning the same response as HttpResponseInit
+ */
+const handler: WrapperHandler<InternalEvent, InternalResult> =
+    async (handler, converter) =>
+    async (...args: any[]): Promise<HttpResponseInit | void> => {
+        if (isV4Invocation(args)) {
+            const context: { res?: Parameters<typeof toV4Response>[0] } = {};
+            await handleImageRequest(handler, converter, context, args[0]);
+            return context.res && toV4Response(context.res);
         }
+        return handleImageRequest(handler, converter, args[0], args[1]);
     };
 
 export default {
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from "vitest";
+import { parseSetCookie, toV4Cookies } from "./cookies.js";
+
+describe("parseSetCookie", () => {
+    let stderr: MockInstance;
+
+    beforeEach(() => {
+        stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+        stderr.mockRestore();
+    });
+
+    it("decodes values the v4 library encodes back unchanged", () => {
+        expect(parseSetCookie("session=a%20b%2Fc; Max-Age=60; SameSite=lax")).toEqual({
+            name: "session",
+            value: "a b/c",
+            maxAge: 60,
+            sameSite: "Lax",
+        });
+        expect(stderr).not.toHaveBeenCalled();
+    });
+
+    it("keeps values decoding would alter and logs them", () => {
+        expect(parseSetCookie("token=YWJj==")).toEqual({ name: "token", value: "YWJj==" });
+        expect(parseSetCookie("bad=%E0%A4%A")).toEqual({ name: "bad", value: "%E0%A4%A" });
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining("Set-Cookie token"));
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining("Set-Cookie bad"));
+    });
+
+    it("logs attributes the Cookie type has no field for", () => {
+        expect(parseSetCookie("id=1; Secure; Partitioned; Priority=High")).toEqual({
+            name: "id",
+            value: "1",
+            secure: true,
+        });
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining("Partitioned, Priority"));
+    });
+
+    it("skips cookies without a valid name", () => {
+        expect(parseSetCookie("=value")).toBeUndefined();
+        expect(parseSetCookie("value")).toBeUndefined();
+        expect(parseSetCookie("a b=1")).toBeUndefined();
+        expect(stderr).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe("toV4Cookies", () => {
+    it("passes a single cookie through as a header", () => {
+        expect(toV4Cookies(["=odd but sent as is"])).toEqual({ setCookie: "=odd but sent as is" });
+    });
+
+    it("leaves out malformed cookies of the cookies array", () => {
+        const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+        expect(toV4Cookies(["a=1", "=2"])).toEqual({ cookies: [{ name: "a", value: "1" }] });
+
+        stderr.mockRestore();
+    });
+});
@@ -0,0 +1,147 @@
+import type { Cookie, HttpResponseInit } from "@azure/functions";
+
+// Cookie names the v4 library accepts (RFC 6265 token), others make it throw while sending the response
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Set-Cookie values of a v4 response: a single one passed through unchanged as a header,
+ * several in the cookies array.
+ */
+export interface V4Cookies {
+    setCookie?: string;
+    cookies?: Cookie[];
+}
+
+/**
+ * Converts the Set-Cookie values of a response for a v4 HttpResponseInit.
+ *
+ * With enableHttpStream the v4 library sets response headers one by one, so only the last of
+ * several Set-Cookie headers would be sent, and it serializes the cookies array itself: values
+ * are encoded with encodeURIComponent and attributes the Cookie type has no field for (e.g.
+ * Partitioned, Priority) are dropped. A single Set-Cookie, the common case, is therefore sent as
+ * a header, exactly as written. Several go through the cookies array, see parseSetCookie.
+ */
+export function toV4Cookies(setCookies: string[]): V4Cookies {
+    if (setCookies.length === 0) {
+        return {};
+    }
+    if (setCookies.length === 1) {
+        return { setCookie: setCookies[0] };
+    }
+
+    const cookies = setCookies.map(parseSetCookie).filter((cookie): cookie is Cookie => cookie !== undefined);
+    return cookies.length > 0 ? { cookies } : {};
+}
+
+/**
+ * Parses a Set-Cookie header value into the Cookie object of the v4 `cookies` response array,
+ * or undefined (logged) for a cookie without a valid name, which the v4 library can't send.
+ *
+ * The library encodes values again, so a value is decoded when that gives it back unchanged
+ * (e.g. "a%20b"). Values it would alter (e.g. base64 with "=") and unsupported attributes are
+ * sent as close as the library allows, and logged.
+ */
+export function parseSetCookie(setCookie: string): Cookie | undefined {
+    const [pair, ...attributes] = setCookie.split(";");
+    const separator = pair.indexOf("=");
+    const name = pair.slice(0, Math.max(separator, 0)).trim();
+
+    if (!COOKIE_NAME.test(name)) {
+        process.stderr.write(`Skipping malformed Set-Cookie header: ${setCookie}\n`);
+        return undefined;
+    }
+
+    const rawValue = pair.slice(separator + 1).trim();
+    const value = decodeCookieValue(rawValue);
+    const cookie: Cookie = { name, value: value ?? rawValue };
+    const altered: string[] = value === undefined ? ["value"] : [];
+
+    for (const attribute of attributes) {
+        const [rawName, ...rawAttributeValue] = attribute.split("=");
+        const attributeName = rawName.trim().toLowerCase();
+        const attributeValue = rawAttributeValue.join("=").trim();
+
+        switch (attributeName) {
+            case "domain":
+                cookie.domain = attributeValue;
+                break;
+            case "path":
+                cookie.path = attributeValue;
+                break;
+            case "expires": {
+                const expires = new Date(attributeValue);
+                if (!Number.isNaN(expires.getTime())) {
+                    cookie.expires = expires;
+                }
+                break;
+            }
+            case "max-age": {
+                const maxAge = Number(attributeValue);
+                if (Number.isInteger(maxAge)) {
+                    cookie.maxAge = maxAge;
+                }
+                break;
+            }
+            case "secure":
+                cookie.secure = true;
+                break;
+            case "httponly":
+                cookie.httpOnly = true;
+                break;
+            case "samesite": {
+                const sameSite = attributeValue.toLowerCase();
+                if (sameSite === "strict") cookie.sameSite = "Strict";
+                else if (sameSite === "lax") cookie.sameSite = "Lax";
+                else if (sameSite === "none") cookie.sameSite = "None";
+                break;
+            }
+            case "":
+                break;
+            default:
+                altered.push(rawName.trim());
+        }
+    }
+
+    if (altered.length > 0) {
+        process.stderr.write(
+            `Set-Cookie ${name}: ${altered.join(", ")} can't be sent unchanged alongside other cookies\n`
+        );
+    }
+
+    return cookie;
+}
+
+/**
+ * Decodes a cookie value the v4 library encodes back to the same string, undefined otherwise
+ * (malformed escapes, or characters encodeURIComponent would escape).
+ */
+function decodeCookieValue(value: string): string | undefined {
+    try {
+        const decoded = decodeURIComponent(value);
+        return encodeURIComponent(decoded) === value ? decoded : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Converts a v3 response (context.res), where Set-Cookie values are a multi-value header,
+ * to a v4 HttpResponseInit (see toV4Cookies).
+ */
+export function toV4Response(response: {
+    status?: number;
+    headers?: Record<string, string | string[]>;
+    body?: HttpResponseInit["body"];
+}): HttpResponseInit {
+    const { "set-cookie": setCookieHeader, ...headers } = response.headers ?? {};
+    const { setCookie, cookies } = toV4Cookies(
+        setCookieHeader === undefined ? [] : Array.isArray(setCookieHeader) ? setCookieHeader : [setCookieHeader]
+    );
+
+    return {
+        status: response.status,
+        headers: { ...(headers as Record<string, string>), ...(setCookie && { "set-cookie": setCookie }) },
+        body: response.body,
+        ...(cookies && { cookies }),
+    };
+}
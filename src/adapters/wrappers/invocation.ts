@@ -0,0 +1,10 @@
+import type { HttpRequest, InvocationContext } from "@azure/functions";
+
+/**
+ * v4 handlers (app.http) are called with (request, context), v3 handlers (function.json)
+ * with (context, request). A v4 HttpRequest has a Headers instance, a v3 request plain header objects.
+ */
+export function isV4Invocation(args: unknown[]): args is [HttpRequest, InvocationContext] {
+    const request = args[0] as HttpRequest | undefined;
+    return typeof request?.headers?.get === "function";
+}
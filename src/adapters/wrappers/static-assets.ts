@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+import type { InternalEvent } from "@opennextjs/aws/types/open-next.js";
+import { getAzureConfig } from "../../config/index.js";
+import { createBlobServiceClient } from "../../config/credentials.js";
+import { logStorageError, untilFirstByte, withResilience } from "../../config/resilience.js";
+
+const ASSETS_CONTAINER = "assets";
+
+// Written by prepareFunctions next to the bundled handler
+export const STATIC_ASSETS_MANIFEST = "static-assets.json";
+
+// Content-hashed build output, always served from the assets container
+const NEXT_STATIC_PREFIX = "/_next/static/";
+
+export interface StaticAssetsManifest {
+    /** Decoded URL paths of the files of .open-next/assets outside _next/static (public folder) */
+    files: string[];
+}
+
+export interface StaticAssetResponse {
+    status: number;
+    headers: Record<string, string>;
+    body?: Buffer | Readable;
+}
+
+let publicFiles: Set<string> | undefined;
+
+function getPublicFiles(): Set<string> {
+    if (!publicFiles) {
+        try {
+            const currentDir = path.dirname(fileURLToPath(import.meta.url));
+            const manifest: StaticAssetsManifest = JSON.parse(
+                fs.readFileSync(path.join(currentDir, STATIC_ASSETS_MANIFEST), "utf-8")
+            );
+            publicFiles = new Set(manifest.files);
+        } catch {
+            // Built without a manifest: only _next/static is known to be static
+            publicFiles = new Set();
+        }
+    }
+    return publicFiles;
+}
+
+function decodePath(rawPath: string): string {
+    try {
+        return decodeURIComponent(rawPath);
+    } catch {
+        return rawPath;
+    }
+}
+
+function isStaticAsset(assetPath: string): boolean {
+    return assetPath.startsWith(NEXT_STATIC_PREFIX) || getPublicFiles().has(assetPath);
+}
+
+function getCacheControl(assetPath: string): string {
+    return assetPath.startsWith(NEXT_STATIC_PREFIX)
+        ? "public, max-age=31536000, immutable"
+        : "public, max-age=0, must-revalidate";
+}
+
+function getAssetsHost(): string {
+    const { staticAssets, storage } = getAzureConfig();
+    const host = staticAssets.host || `https://${storage.accountName}.blob.core.windows.net/${ASSETS_CONTAINER}`;
+    return host.replace(/\/+$/, "");
+}
+
+/**
+ * Answers requests for files of the .open-next/assets build output (public folder and _next/static),
+ * the set of files being listed at build time in static-assets.json. Depending on staticAssets.mode:
+ * - "redirect" (default): 301 to the assets container, or to staticAssets.host (e.g. a CDN)
+ * - "proxy": the blob is streamed through the function, the storage URL stays hidden
+ * - "pass-through": nothing is handled here, for hosts routing assets before the function (Front Door)
+ *
+ * Returns undefined for any other request, and for assets missing from the container in "proxy" mode,
+ * so Next.js handles them. With `stream` false the proxied body is read into a Buffer (v3 model).
+ */
+export async function getStaticAssetResponse(
+    internalEvent: InternalEvent,
+    stream: boolean
+): Promise<StaticAssetResponse | undefined> {
+    const { mode } = getAzureConfig().staticAssets;
+    const assetPath = decodePath(internalEvent.rawPath);
+
+    if (
+        mode === "pass-through" ||
+        (internalEvent.method !== "GET" && internalEvent.method !== "HEAD") ||
+        !isStaticAsset(assetPath)
+    ) {
+        return undefined;
+    }
+
+    if (mode === "proxy") {
+        return proxyAsset(assetPath, internalEvent.method === "HEAD", stream);
+    }
+
+    return {
+        status: 301,
+        headers: {
+            Location: `${getAssetsHost()}${internalEvent.rawPath}`,
+            "Cache-Control": getCacheControl(assetPath),
+        },
+    };
+}
+
+async function proxyAsset(
+    assetPath: string,
+    headOnly: boolean,
+    stream: boolean
+): Promise<StaticAssetResponse | undefined> {
+    const blobServiceClient = createBlobServiceClient();
+    if (!blobServiceClient) {
+        process.stderr.write("Azure Storage not configured. Static assets can't be proxied.\n");
+        return undefined;
+    }
+
+    const blobClient = blobServiceClient.getContainerClient(ASSETS_CONTAINER).getBlobClient(assetPath.slice(1));
+
+    try {
+        const response = await withResilience("blob", async abortSignal => {
+            if (headOnly) {
+                return blobClient.getProperties({ abortSignal });
+            }
+
+            return untilFirstByte(abortSignal, signal => blobClient.download(0, undefined, { abortSignal: signal }));
+        });
+
+        const headers: Record<string, string> = {
+            "Content-Type": response.contentType || "application/octet-stream",
+            "Cache-Control": getCacheControl(assetPath),
+        };
+        if (response.contentLength !== undefined) {
+            headers["Content-Length"] = String(response.contentLength);
+        }
+        if (response.etag) {
+            headers.ETag = response.etag;
+        }
+        if (response.lastModified) {
+            headers["Last-Modified"] = response.lastModified.toUTCString();
+        }
+
+        const readable =
+            "readableStreamBody" in response && response.readableStreamBody
+                ? Readable.from(response.readableStreamBody)
+                : undefined;
+        if (!readable || stream) {
+            return { status: 200, headers, body: readable };
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of readable) {
+            chunks.push(Buffer.from(chunk));
+        }
+        return { status: 200, headers, body: Buffer.concat(chunks) };
+    } catch (error: any) {
+        if (error.statusCode !== 404) {
+            logStorageError(`Failed to proxy static asset ${assetPath}`, error);
+        }
+        return undefined;
+    }
+}
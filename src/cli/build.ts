@@ -8,6 +8,7 @@ export async function build(configPath?: string): Promise<void> {
     console.log("Building Next.js app for Azure...");
 
     const baseDir = process.cwd();
+    const serviceBus = readServiceBusSetting(baseDir);
     const userConfigPath = configPath || "open-next.config.ts";
     const absoluteUserConfigPath = path.join(baseDir, userConfigPath);
 
@@ -26,8 +27,12 @@ export async function build(configPath?: string): Promise<void> {
         const wrapperPath = path.join(packagePath, "dist/adapters/wrappers/azure-functions.js");
         const converterPath = path.join(packagePath, "dist/adapters/converters/azure-http.js");
         const incrementalCachePath = path.join(packagePath, "dist/overrides/incrementalCache/azure-blob.js");
+        const composableCachePath = path.join(packagePath, "dist/overrides/composableCache/azure-blob.js");
         const tagCachePath = path.join(packagePath, "dist/overrides/tagCache/azure-table.js");
-        const queuePath = path.join(packagePath, "dist/overrides/queue/azure-queue.js");
+        const queuePath = path.join(
+            packagePath,
+            serviceBus ? "dist/overrides/queue/azure-service-bus.js" : "dist/overrides/queue/azure-queue.js"
+        );
 
         tempConfigPath = path.join(baseDir, "open-next.config.ts");
         const configContent = `// @ts-nocheck
@@ -36,7 +41,13 @@ export default {
         override: {
             wrapper: () => import("${wrapperPath}").then(m => m.default),
             converter: () => import("${converterPath}").then(m => m.default),
-            incrementalCache: () => import("${incrementalCachePath}").then(m => new m.default()),
+            incrementalCache: async () => {
+                const [incremental, composable] = await Promise.all([
+                    import("${incrementalCachePath}"),
+                    import("${composableCachePath}"),
+                ]);
+                return composable.withComposableCache(new incremental.default(), new composable.default());
+            },
             tagCache: () => import("${tagCachePath}").then(m => new m.default()),
             queue: () => import("${queuePath}").then(m => new m.default()),
             proxyExternalRequest: "fetch",
@@ -69,7 +80,7 @@ export default {
         await openNextBuild(resolvedConfigPath, externals);
 
         // Step 3: Add Azure Functions metadata
-        await prepareFunctions();
+        await prepareFunctions({ serviceBus });
 
         console.log("Build completed successfully!");
         console.log("Output: .open-next/");
@@ -85,3 +96,16 @@ export default {
         }
     }
 }
+
+/**
+ * Reads "serviceBus" from azure.config.json: the default config sends to the Service Bus queue.
+ * With a config of its own, the queue it compiles to selects the revalidation trigger instead.
+ */
+function readServiceBusSetting(baseDir: string): boolean | undefined {
+    try {
+        const config = JSON.parse(fs.readFileSync(path.join(baseDir, "azure.config.json"), "utf-8"));
+        return typeof config.serviceBus === "boolean" ? config.serviceBus : undefined;
+    } catch {
+        return undefined;
+    }
+}
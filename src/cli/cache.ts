@@ -0,0 +1,119 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { TableClient } from "@azure/data-tables";
+import { getStorageConnectionString } from "../deploy/storage.js";
+import { formatBytes, pruneBuildGenerations, readBuildOutputBuildId, type BuildGeneration } from "../deploy/prune.js";
+import { migrateLegacyTableKeys } from "../overrides/tagCache/table-keys.js";
+import { greenCheck, redX } from "./log.js";
+import { resolveKeyPrefix } from "./prepare-functions.js";
+
+export interface CacheCommandOptions {
+    resourceGroup?: string;
+    tableName?: string;
+}
+
+interface PruneCommandOptions extends CacheCommandOptions {
+    containerName?: string;
+    keep?: string;
+    buildId?: string;
+    keyPrefix?: string;
+    dryRun?: boolean;
+}
+
+export async function readProjectConfig(): Promise<Record<string, any>> {
+    try {
+        const configContent = await fs.readFile(path.join(process.cwd(), "azure.config.json"), "utf-8");
+        return JSON.parse(configContent);
+    } catch {
+        return {};
+    }
+}
+
+export async function resolveResourceGroup(options: CacheCommandOptions): Promise<string> {
+    const resourceGroup = options.resourceGroup || (await readProjectConfig()).resourceGroup;
+
+    if (!resourceGroup) {
+        console.error(`${redX()} No resource group specified!`);
+        console.error("  Provide --resource-group or run from a project with azure.config.json\n");
+        process.exit(1);
+    }
+
+    return resourceGroup;
+}
+
+/*
+ * Rewrites tag cache rows stored with unencoded "buildId/key" PartitionKey/RowKey values
+ */
+export async function migrateTagKeys(options: CacheCommandOptions): Promise<void> {
+    const resourceGroup = await resolveResourceGroup(options);
+    const tableName = options.tableName || "nextjstags";
+
+    console.log(`Migrating legacy tag cache keys in table "${tableName}"...`);
+
+    try {
+        const connectionString = await getStorageConnectionString(resourceGroup);
+        const tableClient = TableClient.fromConnectionString(connectionString, tableName);
+
+        const migrated = await migrateLegacyTableKeys(tableClient);
+        console.log(`  ${greenCheck()} Migrated ${migrated} row(s)`);
+    } catch (error: any) {
+        console.error(`${redX()} Failed to migrate tag cache keys: ${error.message}`);
+        process.exit(1);
+    }
+}
+
+function describeGeneration(build: BuildGeneration): string {
+    const deployedAt = build.firstSeen ? build.firstSeen.toISOString() : "unknown";
+    return `${build.buildId}  ${build.blobs} blob(s), ${formatBytes(build.bytes)}, ${build.rows} row(s)  (first seen ${deployedAt})`;
+}
+
+/*
+ * Deletes cache blobs, optimized images and tag rows of old build IDs
+ */
+export async function pruneCache(options: PruneCommandOptions): Promise<void> {
+    const resourceGroup = await resolveResourceGroup(options);
+    const keep = options.keep !== undefined ? parseInt(options.keep, 10) : 1;
+
+    if (Number.isNaN(keep) || keep < 0) {
+        console.error(`${redX()} --keep must be a non-negative number\n`);
+        process.exit(1);
+    }
+
+    const currentBuildId = options.buildId || (await readBuildOutputBuildId());
+
+    console.log(
+        `${options.dryRun ? "Listing" : "Pruning"} cached builds (keeping ${currentBuildId ?? "the most recent build"} + ${keep} previous)...`
+    );
+
+    try {
+        const connectionString = await getStorageConnectionString(resourceGroup);
+        const result = await pruneBuildGenerations({
+            connectionString,
+            containerName: options.containerName || "nextjs-cache",
+            tableName: options.tableName || "nextjstags",
+            imageContainerName: "optimized-images",
+            keyPrefix: options.keyPrefix ?? (await resolveKeyPrefix((await readProjectConfig()).keyPrefix)),
+            currentBuildId,
+            keep,
+            dryRun: options.dryRun,
+        });
+
+        console.log("Keeping:");
+        result.kept.forEach(build => console.log(`  ${describeGeneration(build)}`));
+
+        console.log(options.dryRun ? "Would prune:" : "Pruned:");
+        if (result.pruned.length === 0) {
+            console.log("  (nothing)");
+        }
+        result.pruned.forEach(build => console.log(`  ${describeGeneration(build)}`));
+
+        const bytes = result.pruned.reduce((total, build) => total + build.bytes, 0);
+        const rows = result.pruned.reduce((total, build) => total + build.rows, 0);
+        console.log(
+            `  ${greenCheck()} ${options.dryRun ? "Dry run:" : "Freed"} ${formatBytes(bytes)} and ${rows} row(s) across ${result.pruned.length} build(s)`
+        );
+    } catch (error: any) {
+        console.error(`${redX()} Failed to prune cache: ${error.message}`);
+        process.exit(1);
+    }
+}
@@ -1,5 +1,6 @@
 import { deploy as deployToAzure } from "../deploy/index.js";
 import { selectResourceGroup, selectEnvironment } from "../deploy/prompts.js";
+import { resolveKeyPrefix } from "./prepare-functions.js";
 import fs from "node:fs/promises";
 import path from "node:path";
 
@@ -10,6 +11,7 @@ export async function deploy(options: {
     environment?: "dev" | "staging" | "prod";
     skipInfrastructure?: boolean;
     skipResourceChecks?: boolean;
+    pruneCache?: string;
 }): Promise<void> {
     const cwd = process.cwd();
 
@@ -34,6 +36,16 @@ export async function deploy(options: {
         process.exit(1);
     }
 
+    // One key prefix for the app settings, the uploaded cache entries and the runtime
+    let keyPrefix: string | undefined;
+    try {
+        keyPrefix = await resolveKeyPrefix(config.keyPrefix);
+    } catch (error: any) {
+        console.error(`❌ ${error.message}`);
+        console.error("   Set the same prefix in both, or only in one of them.\n");
+        process.exit(1);
+    }
+
     // Interactive mode if no resource group specified
     let resourceGroup = options.resourceGroup || config.resourceGroup;
     let resourceGroupLocation: string | undefined;
@@ -61,6 +73,13 @@ export async function deploy(options: {
         skipInfrastructure: options.skipInfrastructure,
         skipResourceChecks: options.skipResourceChecks,
         applicationInsights: config.applicationInsights ?? false,
+        managedIdentity: config.managedIdentity,
+        redis: config.redis ?? false,
+        cosmos: config.cosmos ?? false,
+        previousBuildTtlDays: config.previousBuildTtlDays,
+        serviceBus: config.serviceBus ?? false,
+        keyPrefix,
+        pruneCache: options.pruneCache !== undefined ? parseInt(options.pruneCache, 10) : config.pruneCache,
     });
 }
 
@@ -3,6 +3,8 @@ import { promisify } from "node:util";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { greenCheck, redX } from "./log.js";
+import { getRevalidationQueueName, getServiceBusQueue, getStorageConnectionString } from "../deploy/storage.js";
+import { getPoisonQueueName, getQueueStats, getServiceBusQueueStats } from "../deploy/queue.js";
 
 const execAsync = promisify(exec);
 
@@ -56,6 +58,7 @@ export async function health(options?: { appName?: string; resourceGroup?: strin
         { name: "Function App Status", fn: () => checkFunctionAppStatus(appName, resourceGroup, environment) },
         { name: "Storage Containers", fn: () => checkStorageContainers(resourceGroup) },
         { name: "Function App Configuration", fn: () => checkFunctionAppConfig(appName, resourceGroup, environment) },
+        { name: "Revalidation Queue", fn: () => checkRevalidationQueue(resourceGroup) },
     ];
 
     if (config.applicationInsights) {
@@ -406,11 +409,14 @@ async function checkFunctionAppConfig(
 
     try {
         const { stdout } = await execAsync(
-            `az functionapp config appsettings list --resource-group ${resourceGroup} --name ${functionAppName} --query "[?name=='AZURE_STORAGE_CONNECTION_STRING' || name=='FUNCTIONS_WORKER_RUNTIME'].{Name:name, Value:value}" -o json`
+            `az functionapp config appsettings list --resource-group ${resourceGroup} --name ${functionAppName} --query "[?name=='AZURE_STORAGE_CONNECTION_STRING' || name=='AzureWebJobsStorage__accountName' || name=='FUNCTIONS_WORKER_RUNTIME'].{Name:name, Value:value}" -o json`
         );
         const settings = JSON.parse(stdout);
 
-        const hasStorageConnection = settings.some((s: any) => s.Name === "AZURE_STORAGE_CONNECTION_STRING");
+        // Either a connection string or an identity-based connection (managed identity)
+        const hasStorageConnection = settings.some(
+            (s: any) => s.Name === "AZURE_STORAGE_CONNECTION_STRING" || s.Name === "AzureWebJobsStorage__accountName"
+        );
         const hasRuntime = settings.some((s: any) => s.Name === "FUNCTIONS_WORKER_RUNTIME");
 
         if (!hasStorageConnection || !hasRuntime) {
@@ -439,6 +445,67 @@ async function checkFunctionAppConfig(
     }
 }
 
+async function checkRevalidationQueue(resourceGroup: string): Promise<HealthCheckResult> {
+    try {
+        // Set by main.bicep when the revalidation function is triggered from Service Bus
+        const serviceBusQueue = await getServiceBusQueue(resourceGroup);
+        if (serviceBusQueue) {
+            return await checkServiceBusQueue(resourceGroup, serviceBusQueue.namespace, serviceBusQueue.queueName);
+        }
+
+        const queueName = await getRevalidationQueueName(resourceGroup);
+        const connectionString = await getStorageConnectionString(resourceGroup);
+        const [queue, poison] = await Promise.all([
+            getQueueStats(connectionString, queueName),
+            getQueueStats(connectionString, getPoisonQueueName(queueName)),
+        ]);
+
+        // Messages end up in the poison queue after failing maxDequeueCount times
+        if (poison.depth > 0) {
+            return {
+                passed: false,
+                message: `${poison.depth} failed revalidation(s) in ${poison.name}`,
+                details: "Inspect with 'opennextjs-azure queue status', then 'queue requeue' or 'queue purge'",
+            };
+        }
+
+        return {
+            passed: true,
+            message: "Revalidation queue healthy",
+            details: `${queueName}: ${queue.depth} pending message(s), poison queue empty`,
+        };
+    } catch (error: any) {
+        return {
+            passed: false,
+            message: "Failed to check revalidation queue",
+            details: error.message,
+        };
+    }
+}
+
+async function checkServiceBusQueue(
+    resourceGroup: string,
+    namespace: string,
+    queueName: string
+): Promise<HealthCheckResult> {
+    const stats = await getServiceBusQueueStats(resourceGroup, namespace, queueName);
+
+    // Messages are dead-lettered after maxDeliveryCount failed deliveries
+    if (stats.deadLetterMessages > 0) {
+        return {
+            passed: false,
+            message: `${stats.deadLetterMessages} failed revalidation(s) in the dead-letter queue of ${namespace}/${queueName}`,
+            details: "Inspect them with Service Bus Explorer in the Azure portal",
+        };
+    }
+
+    return {
+        passed: true,
+        message: "Revalidation queue healthy",
+        details: `${namespace}/${queueName} (Service Bus): ${stats.activeMessages} pending message(s), dead-letter queue empty`,
+    };
+}
+
 async function checkApplicationInsights(
     appName: string,
     resourceGroup: string,
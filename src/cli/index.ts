@@ -6,6 +6,8 @@ import { deploy } from "./deploy.js";
 import { tail } from "./tail.js";
 import { health } from "./health.js";
 import { deleteResourceGroup } from "./delete.js";
+import { migrateTagKeys, pruneCache } from "./cache.js";
+import { purgePoison, queueStatus, requeuePoison } from "./queue.js";
 
 const program = new Command();
 
@@ -46,6 +48,7 @@ program
     .option("-e, --environment <env>", "Environment: dev, staging, or prod")
     .option("--skip-infrastructure", "Skip infrastructure provisioning")
     .option("--skip-resource-checks", "Skip Azure resource validation checks (permissions, quota, providers)")
+    .option("--prune-cache <keep>", "After deploying, delete cached data of all but the <keep> previous builds")
     .action(async options => {
         await deploy(options);
     });
@@ -78,4 +81,61 @@ program
         await deleteResourceGroup(options);
     });
 
+const cache = program.command("cache").description("Manage the ISR cache and tag table in Azure Storage");
+
+cache
+    .command("migrate-keys")
+    .description("Re-encode tag table rows written with unencoded PartitionKey/RowKey values")
+    .option("-g, --resource-group <name>", "Azure resource group name")
+    .option("--table-name <name>", "Tag cache table name (default: nextjstags)")
+    .action(async options => {
+        await migrateTagKeys(options);
+    });
+
+cache
+    .command("prune")
+    .description("Delete cache blobs, optimized images and tag rows of old build IDs")
+    .option("-g, --resource-group <name>", "Azure resource group name")
+    .option("--keep <n>", "Number of previous builds to keep besides the current one (default: 1)")
+    .option("--build-id <id>", "Current build ID (default: read from .open-next, else the most recent build)")
+    .option("--container-name <name>", "Incremental cache container name (default: nextjs-cache)")
+    .option("--table-name <name>", "Tag cache table name (default: nextjstags)")
+    .option(
+        "--key-prefix <prefix>",
+        "Key namespace of the app (default: keyPrefix from azure.config.json or the build)"
+    )
+    .option("--dry-run", "Only report what would be deleted")
+    .action(async options => {
+        await pruneCache(options);
+    });
+
+const queue = program.command("queue").description("Inspect the revalidation queue and its poison queue");
+
+queue
+    .command("status")
+    .description("Show queue depth, oldest message age and poison queue contents")
+    .option("-g, --resource-group <name>", "Azure resource group name")
+    .option("--queue-name <name>", "Revalidation queue name (default: AZURE_QUEUE_NAME of the Function App)")
+    .action(async options => {
+        await queueStatus(options);
+    });
+
+queue
+    .command("requeue")
+    .description("Move poison messages back to the revalidation queue")
+    .option("-g, --resource-group <name>", "Azure resource group name")
+    .option("--queue-name <name>", "Revalidation queue name (default: AZURE_QUEUE_NAME of the Function App)")
+    .action(async options => {
+        await requeuePoison(options);
+    });
+
+queue
+    .command("purge")
+    .description("Delete all poison messages")
+    .option("-g, --resource-group <name>", "Azure resource group name")
+    .option("--queue-name <name>", "Revalidation queue name (default: AZURE_QUEUE_NAME of the Function App)")
+    .action(async options => {
+        await purgePoison(options);
+    });
+
 program.parse();
@@ -41,9 +41,8 @@ export async function init(options?: ScaffoldOptions & { scaffold?: boolean }):
         // Create infrastructure directory
         await fs.mkdir(infraDir, { recursive: true });
 
-        // Copy bicep template from package
-        const bicepContent = await getBicepTemplate();
-        await fs.writeFile(path.join(infraDir, "main.bicep"), bicepContent);
+        // Copy bicep templates from package
+        await copyBicepTemplates(infraDir);
 
         // Create azure.config.json
         const configContent = getAzureConfigTemplate();
@@ -61,7 +60,7 @@ export async function init(options?: ScaffoldOptions & { scaffold?: boolean }):
             // .gitignore doesn't exist, skip
         }
 
-        console.log("Created infrastructure/main.bicep");
+        console.log("Created infrastructure/main.bicep and infrastructure/modules/");
         console.log("Created azure.config.json");
         console.log("\nNext steps:");
         console.log("1. Edit azure.config.json with your app details");
@@ -89,11 +88,20 @@ async function promptUser(question: string): Promise<string> {
     });
 }
 
-async function getBicepTemplate(): Promise<string> {
+/**
+ * Copies main.bicep and the modules it deploys (modules/*.bicep) from the package to infraDir.
+ */
+export async function copyBicepTemplates(infraDir: string): Promise<void> {
     const currentDir = path.dirname(fileURLToPath(import.meta.url));
-    const templatePath = path.join(currentDir, "../infrastructure/main.bicep");
-    return await fs.readFile(templatePath, "utf-8");
+    const templatesDir = path.join(currentDir, "../infrastructure");
+    const modules = await fs.readdir(path.join(templatesDir, "modules"));
+
+    await fs.mkdir(path.join(infraDir, "modules"), { recursive: true });
+    for (const file of ["main.bicep", ...modules.map(module => path.join("modules", module))]) {
+        await fs.copyFile(path.join(templatesDir, file), path.join(infraDir, file));
+    }
 }
+
 function getAzureConfigTemplate(): string {
     return `{
   "$schema": "./node_modules/opennextjs-azure/azure.config.schema.json",
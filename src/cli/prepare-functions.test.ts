@@ -0,0 +1,36 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { listFiles } from "./prepare-functions.js";
+
+describe("listFiles", () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+        if (dir) {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("lists nested files with / separators", async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "list-files-"));
+        await fs.mkdir(path.join(dir, "images/icons"), { recursive: true });
+        await fs.mkdir(path.join(dir, "empty"));
+        await fs.writeFile(path.join(dir, "favicon.ico"), "");
+        await fs.writeFile(path.join(dir, "images/icons/logo.svg"), "");
+
+        expect((await listFiles(dir)).sort()).toEqual(["favicon.ico", "images/icons/logo.svg"]);
+    });
+
+    it("returns nothing for a missing directory", async () => {
+        expect(await listFiles(path.join(os.tmpdir(), "list-files-missing"))).toEqual([]);
+    });
+
+    it("rethrows other errors", async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "list-files-"));
+        await fs.writeFile(path.join(dir, "file"), "");
+
+        await expect(listFiles(path.join(dir, "file"))).rejects.toMatchObject({ code: "ENOTDIR" });
+    });
+});
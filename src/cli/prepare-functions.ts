@@ -1,17 +1,40 @@
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
+import type { Dirent } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { greenCheck } from "./log.js";
+import { pathToFileURL } from "node:url";
+import type { AzureOpenNextConfig } from "../config/index.js";
+import type { FunctionsModel } from "../types/index.js";
+import { STATIC_ASSETS_MANIFEST, type StaticAssetsManifest } from "../adapters/wrappers/static-assets.js";
+import { greenCheck, yellowWarning } from "./log.js";
 
 const execAsync = promisify(exec);
 
+// Version of @azure/functions installed with the v4 entrypoint
+const AZURE_FUNCTIONS_VERSION = "^4.5.1";
+const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"];
+
+export interface PrepareFunctionsOptions {
+    /**
+     * Trigger the revalidation function from the Service Bus queue instead of the storage queue.
+     * Only used when the compiled config doesn't name its queue (configs not made with defineAzureConfig,
+     * or a custom Queue object), otherwise the trigger follows the queue the app sends to.
+     */
+    serviceBus?: boolean;
+    /** Programming model of the generated app (default: functionsModel of defineAzureConfig, else "v3") */
+    functionsModel?: FunctionsModel;
+}
+
 /**
  * Prepares the .open-next build output for Azure Functions deployment
  * by adding required Azure Functions metadata files (host.json, function.json)
  * and installing production dependencies
+ *
+ * With the v4 programming model, functions are registered with app.http/app.storageQueue
+ * in a generated main.mjs instead of function.json folders (the host doesn't support mixing both).
  */
-export async function prepareFunctions(): Promise<void> {
+export async function prepareFunctions(options: PrepareFunctionsOptions = {}): Promise<void> {
     const functionsDir = path.join(process.cwd(), ".open-next/server-functions/default");
 
     try {
@@ -20,7 +43,15 @@ export async function prepareFunctions(): Promise<void> {
         throw new Error(".open-next/server-functions/default not found. Run 'opennextjs-azure build' first.");
     }
 
-    console.log("Preparing Azure Functions metadata...");
+    const settings = await readBuildSettings(functionsDir);
+    const functionsModel = options.functionsModel ?? settings.functionsModel ?? "v3";
+    const serviceBus = settings.queue ? settings.queue === "azure-service-bus" : options.serviceBus === true;
+    if (settings.queue && options.serviceBus !== undefined && options.serviceBus !== serviceBus) {
+        console.warn(
+            `  ${yellowWarning()} The config uses the "${settings.queue}" queue, ignoring "serviceBus": ${options.serviceBus} of azure.config.json`
+        );
+    }
+    console.log(`Preparing Azure Functions metadata (${functionsModel} programming model)...`);
 
     // Create host.json - configures the Functions host
     const hostJson = {
@@ -41,6 +72,11 @@ export async function prepareFunctions(): Promise<void> {
             http: {
                 routePrefix: "",
             },
+            queues: {
+                // AzureQueueRevalidation.send writes base64-encoded messages
+                messageEncoding: "base64",
+                maxDequeueCount: 5,
+            },
         },
     };
 
@@ -48,7 +84,6 @@ export async function prepareFunctions(): Promise<void> {
 
     // Create root path handler (/)
     const rootDir = path.join(functionsDir, "root");
-    await fs.mkdir(rootDir, { recursive: true });
 
     const rootFunctionJson = {
         bindings: [
@@ -70,11 +105,12 @@ export async function prepareFunctions(): Promise<void> {
         entryPoint: "handler",
     };
 
-    await fs.writeFile(path.join(rootDir, "function.json"), JSON.stringify(rootFunctionJson, null, 2));
+    if (functionsModel === "v3") {
+        await writeFunctionJson(rootDir, rootFunctionJson);
+    }
 
     // Create catch-all handler for all other paths
     const functionDir = path.join(functionsDir, "server");
-    await fs.mkdir(functionDir, { recursive: true });
 
     const functionJson = {
         bindings: [
@@ -96,17 +132,19 @@ export async function prepareFunctions(): Promise<void> {
         entryPoint: "handler",
     };
 
-    await fs.writeFile(path.join(functionDir, "function.json"), JSON.stringify(functionJson, null, 2));
+    if (functionsModel === "v3") {
+        await writeFunctionJson(functionDir, functionJson);
+    }
 
     // Add image optimization function if it exists
     const imageOptDir = path.join(process.cwd(), ".open-next/image-optimization-function");
+    let hasImageOptimization = false;
     try {
         await fs.access(imageOptDir);
         console.log("  Adding image optimization function...");
 
         // Create image-optimization directory in the Functions app
         const imageFunctionDir = path.join(functionsDir, "image-optimization");
-        await fs.mkdir(imageFunctionDir, { recursive: true });
 
         // Create function.json for image optimization route
         const imageFunctionJson = {
@@ -129,7 +167,9 @@ export async function prepareFunctions(): Promise<void> {
             entryPoint: "handler",
         };
 
-        await fs.writeFile(path.join(imageFunctionDir, "function.json"), JSON.stringify(imageFunctionJson, null, 2));
+        if (functionsModel === "v3") {
+            await writeFunctionJson(imageFunctionDir, imageFunctionJson);
+        }
 
         // Copy the image optimization handler as index-image.mjs
         await fs.copyFile(path.join(imageOptDir, "index.mjs"), path.join(functionsDir, "index-image.mjs"));
@@ -150,11 +190,70 @@ export async function prepareFunctions(): Promise<void> {
             // File doesn't exist, that's ok
         }
 
+        hasImageOptimization = true;
         console.log(`  ${greenCheck()} Image optimization function added`);
     } catch {
         // Image optimization function doesn't exist, skip
     }
 
+    // Add queue-triggered revalidation worker (consumes messages from AzureQueueRevalidation,
+    // or from AzureServiceBusRevalidation when the Service Bus queue is used)
+    console.log("  Adding revalidation function...");
+
+    const revalidationDir = path.join(functionsDir, "revalidation");
+
+    const trigger = serviceBus
+        ? {
+              type: "serviceBusTrigger",
+              direction: "in",
+              name: "message",
+              queueName: "%AZURE_SERVICE_BUS_QUEUE%",
+              // Resolves AzureServiceBus (connection string) or AzureServiceBus__fullyQualifiedNamespace (managed identity)
+              connection: "AzureServiceBus",
+              // Messages of a session (MessageGroupId) are processed in order
+              isSessionsEnabled: true,
+          }
+        : {
+              type: "queueTrigger",
+              direction: "in",
+              name: "message",
+              queueName: "%AZURE_QUEUE_NAME%",
+              // Works with both a connection string and AzureWebJobsStorage__accountName (managed identity)
+              connection: "AzureWebJobsStorage",
+          };
+
+    const revalidationFunctionJson = {
+        bindings: [trigger],
+        scriptFile: "../revalidation.mjs",
+        entryPoint: "handler",
+    };
+
+    if (functionsModel === "v3") {
+        await writeFunctionJson(revalidationDir, revalidationFunctionJson);
+    }
+
+    // Copy the revalidation handler from the package as revalidation.mjs
+    const { createRequire } = await import("node:module");
+    const require = createRequire(import.meta.url);
+    const packagePath = path.dirname(require.resolve("opennextjs-azure/package.json"));
+    await fs.copyFile(
+        path.join(packagePath, "dist/adapters/revalidation.js"),
+        path.join(functionsDir, "revalidation.mjs")
+    );
+
+    console.log(`  ${greenCheck()} Revalidation function added`);
+
+    const staticFiles = await writeStaticAssetsManifest(functionsDir);
+    console.log(`  ${greenCheck()} Static assets manifest created (${staticFiles} public file(s))`);
+
+    if (functionsModel === "v4") {
+        await fs.writeFile(
+            path.join(functionsDir, "main.mjs"),
+            generateV4Entrypoint({ imageOptimization: hasImageOptimization, serviceBus })
+        );
+        console.log(`  ${greenCheck()} main.mjs entrypoint generated`);
+    }
+
     console.log(`  ${greenCheck()} Azure Functions metadata created`);
 
     console.log("Installing minimal runtime dependencies...");
@@ -165,10 +264,13 @@ export async function prepareFunctions(): Promise<void> {
             name: originalPackageJson.name || "nextjs-app",
             version: originalPackageJson.version || "1.0.0",
             private: true,
+            // The v4 host loads the functions registered by the "main" entrypoint
+            ...(functionsModel === "v4" && { main: "main.mjs" }),
             dependencies: {
                 next: originalPackageJson.dependencies?.next || "latest",
                 react: originalPackageJson.dependencies?.react || "latest",
                 "react-dom": originalPackageJson.dependencies?.["react-dom"] || "latest",
+                ...(functionsModel === "v4" && { "@azure/functions": AZURE_FUNCTIONS_VERSION }),
             },
         };
 
@@ -203,3 +305,124 @@ export async function prepareFunctions(): Promise<void> {
         // Image optimization not configured, skip Sharp install
     }
 }
+
+async function writeFunctionJson(functionDir: string, functionJson: object): Promise<void> {
+    await fs.mkdir(functionDir, { recursive: true });
+    await fs.writeFile(path.join(functionDir, "function.json"), JSON.stringify(functionJson, null, 2));
+}
+
+/**
+ * Lists the files under dir as "/"-separated paths relative to it, empty when dir doesn't exist.
+ * Walks the tree itself: readdir's recursive option is ignored before Node 18.17.
+ */
+export async function listFiles(dir: string): Promise<string[]> {
+    let entries: Dirent[];
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+        if (error.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+        if (entry.isDirectory()) {
+            const children = await listFiles(path.join(dir, entry.name));
+            files.push(...children.map(child => `${entry.name}/${child}`));
+        } else if (entry.isFile()) {
+            files.push(entry.name);
+        }
+    }
+    return files;
+}
+
+/**
+ * Lists the files of .open-next/assets outside _next/static (the public folder), so the wrapper
+ * answers exactly those paths from the assets container. Returns the number of files listed.
+ */
+async function writeStaticAssetsManifest(functionsDir: string): Promise<number> {
+    const assetsDir = path.join(process.cwd(), ".open-next/assets");
+    const files = (await listFiles(assetsDir))
+        .map(file => `/${file}`)
+        .filter(file => !file.startsWith("/_next/static/"))
+        .sort();
+
+    const manifest: StaticAssetsManifest = { files };
+    await fs.writeFile(path.join(functionsDir, STATIC_ASSETS_MANIFEST), JSON.stringify(manifest));
+    return files.length;
+}
+
+/**
+ * Reads the azure settings of the compiled open-next.config.mjs (set by defineAzureConfig),
+ * empty for configs not created with defineAzureConfig
+ */
+export async function readBuildSettings(
+    functionsDir = path.join(process.cwd(), ".open-next/server-functions/default")
+): Promise<Partial<AzureOpenNextConfig["azure"]>> {
+    try {
+        const config = await import(pathToFileURL(path.join(functionsDir, "open-next.config.mjs")).href);
+        return config.default?.azure ?? {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Key prefix of the app: keyPrefix of azure.config.json, else storage.keyPrefix of the compiled config.
+ * Deploy sets it as the AZURE_STORAGE_KEY_PREFIX app setting and uploads the prerendered entries under it,
+ * so every function, the revalidation worker included, uses it without loading the server overrides.
+ */
+export async function resolveKeyPrefix(
+    projectKeyPrefix: string | undefined,
+    functionsDir?: string
+): Promise<string | undefined> {
+    const { keyPrefix } = await readBuildSettings(functionsDir);
+
+    if (projectKeyPrefix && keyPrefix && projectKeyPrefix !== keyPrefix) {
+        throw new Error(
+            `keyPrefix "${projectKeyPrefix}" of azure.config.json differs from storage.keyPrefix "${keyPrefix}" of open-next.config.ts`
+        );
+    }
+
+    return projectKeyPrefix || keyPrefix || undefined;
+}
+
+/**
+ * Generates main.mjs, registering the same functions as the v3 function.json folders.
+ * HTTP streaming is enabled so the server function can stream responses.
+ */
+function generateV4Entrypoint(options: { imageOptimization: boolean; serviceBus?: boolean }): string {
+    const lines = [
+        `import { app } from "@azure/functions";`,
+        `import { handler as server } from "./index.mjs";`,
+        ...(options.imageOptimization ? [`import { handler as imageOptimization } from "./index-image.mjs";`] : []),
+        `import { handler as revalidation } from "./revalidation.mjs";`,
+        ``,
+        `app.setup({ enableHttpStream: true });`,
+        ``,
+        `const methods = ${JSON.stringify(HTTP_METHODS)};`,
+        ``,
+        `app.http("root", { route: "", methods, authLevel: "anonymous", handler: server });`,
+        `app.http("server", { route: "{*path}", methods, authLevel: "anonymous", handler: server });`,
+    ];
+
+    if (options.imageOptimization) {
+        lines.push(
+            `app.http("image-optimization", { route: "_next/image", methods: ["GET", "HEAD"], authLevel: "anonymous", handler: imageOptimization });`
+        );
+    }
+
+    if (options.serviceBus) {
+        lines.push(
+            `app.serviceBusQueue("revalidation", { queueName: "%AZURE_SERVICE_BUS_QUEUE%", connection: "AzureServiceBus", isSessionsEnabled: true, handler: (message, context) => revalidation(context, message) });`
+        );
+    } else {
+        lines.push(
+            `app.storageQueue("revalidation", { queueName: "%AZURE_QUEUE_NAME%", connection: "AzureWebJobsStorage", handler: (message, context) => revalidation(context, message) });`
+        );
+    }
+
+    return lines.join("\n") + "\n";
+}
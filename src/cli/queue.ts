@@ -0,0 +1,114 @@
+import { getRevalidationQueueName, getStorageConnectionString } from "../deploy/storage.js";
+import {
+    getPoisonQueueName,
+    getQueueStats,
+    peekPoisonMessages,
+    purgePoisonMessages,
+    requeuePoisonMessages,
+    type QueueStats,
+} from "../deploy/queue.js";
+import { resolveResourceGroup } from "./cache.js";
+import { greenCheck, redX, yellowWarning } from "./log.js";
+
+interface QueueCommandOptions {
+    resourceGroup?: string;
+    queueName?: string;
+}
+
+function formatAge(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d`;
+}
+
+function describeQueue(stats: QueueStats): string {
+    if (!stats.exists) {
+        return `${stats.name}  (not created)`;
+    }
+    const age = stats.oldestMessageAgeMs !== undefined ? `, oldest ${formatAge(stats.oldestMessageAgeMs)}` : "";
+    return `${stats.name}  ${stats.depth} message(s)${age}`;
+}
+
+/*
+ * Shows depth and oldest message age of the revalidation queue and the contents of its poison queue
+ */
+export async function queueStatus(options: QueueCommandOptions): Promise<void> {
+    const resourceGroup = await resolveResourceGroup(options);
+    const queueName = options.queueName || (await getRevalidationQueueName(resourceGroup));
+
+    try {
+        const connectionString = await getStorageConnectionString(resourceGroup);
+        const [queue, poison, poisonMessages] = await Promise.all([
+            getQueueStats(connectionString, queueName),
+            getQueueStats(connectionString, getPoisonQueueName(queueName)),
+            peekPoisonMessages(connectionString, queueName),
+        ]);
+
+        console.log("Revalidation queue:");
+        console.log(`  ${describeQueue(queue)}`);
+
+        console.log("Poison queue:");
+        console.log(`  ${describeQueue(poison)}`);
+
+        if (poisonMessages.length === 0) {
+            console.log(`  ${greenCheck()} No failed revalidations`);
+            return;
+        }
+
+        for (const message of poisonMessages) {
+            const failedAt = message.insertedOn ? message.insertedOn.toISOString() : "unknown";
+            console.log(`  ${message.summary}  (failed at ${failedAt}, id ${message.messageId})`);
+        }
+        if (poison.depth > poisonMessages.length) {
+            console.log(`  ... and ${poison.depth - poisonMessages.length} more`);
+        }
+        console.log(
+            `  ${yellowWarning()} Run 'opennextjs-azure queue requeue' to retry them or 'opennextjs-azure queue purge' to drop them`
+        );
+    } catch (error: any) {
+        console.error(`${redX()} Failed to read queue status: ${error.message}`);
+        process.exit(1);
+    }
+}
+
+/*
+ * Moves poison messages back to the revalidation queue to be retried
+ */
+export async function requeuePoison(options: QueueCommandOptions): Promise<void> {
+    const resourceGroup = await resolveResourceGroup(options);
+    const queueName = options.queueName || (await getRevalidationQueueName(resourceGroup));
+
+    console.log(`Requeuing poison messages of "${queueName}"...`);
+
+    try {
+        const connectionString = await getStorageConnectionString(resourceGroup);
+        const requeued = await requeuePoisonMessages(connectionString, queueName);
+        console.log(`  ${greenCheck()} Requeued ${requeued} message(s)`);
+    } catch (error: any) {
+        console.error(`${redX()} Failed to requeue poison messages: ${error.message}`);
+        process.exit(1);
+    }
+}
+
+/*
+ * Deletes every poison message
+ */
+export async function purgePoison(options: QueueCommandOptions): Promise<void> {
+    const resourceGroup = await resolveResourceGroup(options);
+    const queueName = options.queueName || (await getRevalidationQueueName(resourceGroup));
+
+    console.log(`Purging poison messages of "${queueName}"...`);
+
+    try {
+        const connectionString = await getStorageConnectionString(resourceGroup);
+        const purged = await purgePoisonMessages(connectionString, queueName);
+        console.log(`  ${greenCheck()} Purged ${purged} message(s)`);
+    } catch (error: any) {
+        console.error(`${redX()} Failed to purge poison messages: ${error.message}`);
+        process.exit(1);
+    }
+}
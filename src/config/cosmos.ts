@@ -0,0 +1,81 @@
+import { CosmosClient, type Container, type OperationInput } from "@azure/cosmos";
+import { getAzureConfig } from "./index.js";
+import { getTokenCredential } from "./credentials.js";
+import { withResilience } from "./resilience.js";
+
+/**
+ * Creates the Cosmos DB (NoSQL API) container client used by the "azure-cosmos" tag cache,
+ * or undefined when AZURE_COSMOS_ENDPOINT isn't set.
+ *
+ * Authenticates with AZURE_COSMOS_KEY when set, otherwise with the managed identity
+ * (requires the Cosmos DB Built-in Data Contributor role, assigned by the Bicep template).
+ */
+export function createCosmosContainer(): Container | undefined {
+    const { cosmos, storage } = getAzureConfig();
+
+    if (!cosmos.endpoint) {
+        return undefined;
+    }
+
+    const client = cosmos.key
+        ? new CosmosClient({ endpoint: cosmos.endpoint, key: cosmos.key })
+        : new CosmosClient({
+              endpoint: cosmos.endpoint,
+              aadCredentials: getTokenCredential(storage.managedIdentityClientId),
+          });
+
+    return client.database(cosmos.databaseName).container(cosmos.containerName);
+}
+
+/**
+ * Thrown when operations of a bulk request fail, with the status code of the first failure
+ * (a 429 or 5xx makes withResilience retry the request).
+ */
+export class CosmosBulkError extends Error {
+    constructor(
+        readonly code: number,
+        failures: number
+    ) {
+        super(`${failures} Cosmos DB bulk operation(s) failed, first with status ${code}`);
+        this.name = "CosmosBulkError";
+    }
+}
+
+/**
+ * Runs bulk operations through withResilience("cosmos") and checks the result of each one:
+ * executeBulkOperations resolves even when operations fail. Returns the operations that failed
+ * with one of the expected status codes (e.g. 404 for a patch of a missing item), throws on any
+ * other failure.
+ */
+export async function executeBulk(
+    container: Container,
+    operations: OperationInput[],
+    expectedStatusCodes: number[] = []
+): Promise<OperationInput[]> {
+    if (operations.length === 0) {
+        return [];
+    }
+
+    return withResilience("cosmos", async abortSignal => {
+        const results = await container.items.executeBulkOperations(operations, { abortSignal });
+        const expected: OperationInput[] = [];
+        const failures: number[] = [];
+
+        for (const { operationInput, response, error } of results) {
+            const statusCode = response?.statusCode ?? (typeof error?.code === "number" ? error.code : 500);
+            if (statusCode < 400) {
+                continue;
+            }
+            if (expectedStatusCodes.includes(statusCode)) {
+                expected.push(operationInput);
+            } else {
+                failures.push(statusCode);
+            }
+        }
+
+        if (failures.length > 0) {
+            throw new CosmosBulkError(failures[0], failures.length);
+        }
+        return expected;
+    });
+}
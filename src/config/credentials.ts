@@ -0,0 +1,135 @@
+import { DefaultAzureCredential, ManagedIdentityCredential, type TokenCredential } from "@azure/identity";
+import { BlobServiceClient, StorageSharedKeyCredential } from "@azure/storage-blob";
+import { TableClient, AzureNamedKeyCredential } from "@azure/data-tables";
+import {
+    QueueServiceClient,
+    QueueClient,
+    StorageSharedKeyCredential as QueueSharedKeyCredential,
+} from "@azure/storage-queue";
+import { getAzureConfig } from "./index.js";
+
+/**
+ * Resolved way of authenticating against the storage account.
+ *
+ * Resolution order:
+ * 1. AZURE_STORAGE_CONNECTION_STRING
+ * 2. AZURE_STORAGE_ACCOUNT_NAME + AZURE_STORAGE_ACCOUNT_KEY
+ * 3. AZURE_STORAGE_ACCOUNT_NAME + managed identity (user-assigned when AZURE_CLIENT_ID is set,
+ *    otherwise system-assigned, falling back to DefaultAzureCredential for local development)
+ */
+export type StorageCredential =
+    | { type: "connectionString"; connectionString: string }
+    | { type: "sharedKey"; accountName: string; accountKey: string }
+    | { type: "tokenCredential"; accountName: string; credential: TokenCredential };
+
+let tokenCredential: TokenCredential | undefined;
+
+export function getTokenCredential(managedIdentityClientId?: string): TokenCredential {
+    if (!tokenCredential) {
+        // IDENTITY_ENDPOINT is set by App Service / Functions when a managed identity is assigned
+        tokenCredential = process.env.IDENTITY_ENDPOINT
+            ? new ManagedIdentityCredential({ clientId: managedIdentityClientId })
+            : new DefaultAzureCredential({ managedIdentityClientId });
+    }
+    return tokenCredential;
+}
+
+// Retries, timeouts and circuit breaking are handled by withResilience (see resilience.ts),
+// the SDK pipelines must not retry on their own
+const blobOptions = { retryOptions: { maxTries: 1 } };
+const tableOptions = { retryOptions: { maxRetries: 0 } };
+
+export function resolveStorageCredential(): StorageCredential | undefined {
+    const { storage } = getAzureConfig();
+
+    if (storage.connectionString) {
+        return { type: "connectionString", connectionString: storage.connectionString };
+    }
+
+    if (storage.accountName && storage.accountKey) {
+        return { type: "sharedKey", accountName: storage.accountName, accountKey: storage.accountKey };
+    }
+
+    if (storage.accountName) {
+        return {
+            type: "tokenCredential",
+            accountName: storage.accountName,
+            credential: getTokenCredential(storage.managedIdentityClientId),
+        };
+    }
+
+    return undefined;
+}
+
+export function createBlobServiceClient(): BlobServiceClient | undefined {
+    const resolved = resolveStorageCredential();
+
+    switch (resolved?.type) {
+        case "connectionString":
+            return BlobServiceClient.fromConnectionString(resolved.connectionString, blobOptions);
+        case "sharedKey":
+            return new BlobServiceClient(
+                `https://${resolved.accountName}.blob.core.windows.net`,
+                new StorageSharedKeyCredential(resolved.accountName, resolved.accountKey),
+                blobOptions
+            );
+        case "tokenCredential":
+            return new BlobServiceClient(
+                `https://${resolved.accountName}.blob.core.windows.net`,
+                resolved.credential,
+                blobOptions
+            );
+        default:
+            return undefined;
+    }
+}
+
+export function createTableClient(tableName: string): TableClient | undefined {
+    const resolved = resolveStorageCredential();
+
+    switch (resolved?.type) {
+        case "connectionString":
+            return TableClient.fromConnectionString(resolved.connectionString, tableName, tableOptions);
+        case "sharedKey":
+            return new TableClient(
+                `https://${resolved.accountName}.table.core.windows.net`,
+                tableName,
+                new AzureNamedKeyCredential(resolved.accountName, resolved.accountKey),
+                tableOptions
+            );
+        case "tokenCredential":
+            return new TableClient(
+                `https://${resolved.accountName}.table.core.windows.net`,
+                tableName,
+                resolved.credential,
+                tableOptions
+            );
+        default:
+            return undefined;
+    }
+}
+
+export function createQueueClient(queueName: string): QueueClient | undefined {
+    const resolved = resolveStorageCredential();
+
+    switch (resolved?.type) {
+        case "connectionString":
+            return QueueServiceClient.fromConnectionString(resolved.connectionString, blobOptions).getQueueClient(
+                queueName
+            );
+        case "sharedKey":
+            return new QueueServiceClient(
+                `https://${resolved.accountName}.queue.core.windows.net`,
+                new QueueSharedKeyCredential(resolved.accountName, resolved.accountKey),
+                blobOptions
+            ).getQueueClient(queueName);
+        case "tokenCredential":
+            return new QueueServiceClient(
+                `https://${resolved.accountName}.queue.core.windows.net`,
+                resolved.credential,
+                blobOptions
+            ).getQueueClient(queueName);
+        default:
+            return undefined;
+    }
+}
@@ -1,6 +1,21 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import type { OpenNextConfig } from "@opennextjs/aws/types/open-next.js";
 import type { IncrementalCache, TagCache, Queue, ImageLoader } from "@opennextjs/aws/types/overrides.js";
-import type { AzureConfig } from "../types/index.js";
+import type { AzureConfig, FunctionsModel, StaticAssetsMode, StaticAssetsOptions } from "../types/index.js";
+
+export type AzureOpenNextConfig = OpenNextConfig & {
+    /** Settings read by the CLI from the compiled open-next.config.mjs */
+    azure: {
+        functionsModel: FunctionsModel;
+        staticAssets: StaticAssetsOptions;
+        /** Named revalidation queue, selecting the trigger of the revalidation function */
+        queue?: "azure-queue" | "azure-service-bus" | "direct";
+        /** storage.keyPrefix, applied by deploy as the AZURE_STORAGE_KEY_PREFIX app setting */
+        keyPrefix?: string;
+    };
+};
 
 /**
  * Defines the OpenNext configuration for Azure deployment.
@@ -8,15 +23,17 @@ import type { AzureConfig } from "../types/index.js";
  * This extends the base OpenNext config with Azure-specific settings,
  * using Azure Blob Storage, Table Storage, and Queue Storage by default.
  */
-export function defineAzureConfig(config: AzureConfig = {}): OpenNextConfig {
+export function defineAzureConfig(config: AzureConfig = {}): AzureOpenNextConfig {
     return {
         default: {
             override: {
-                wrapper: () => import("../adapters/wrappers/azure-functions.js").then(m => m.default),
+                wrapper: withStorageConfig(config, () =>
+                    import("../adapters/wrappers/azure-functions.js").then(m => m.default)
+                ),
                 converter: () => import("../adapters/converters/azure-http.js").then(m => m.default),
-                incrementalCache: resolveIncremental(config.incrementalCache),
-                tagCache: resolveTag(config.tagCache),
-                queue: resolveQueue(config.queue),
+                incrementalCache: withStorageConfig(config, resolveIncremental(config)),
+                tagCache: withStorageConfig(config, resolveTag(config.tagCache)),
+                queue: withStorageConfig(config, resolveQueue(config.queue, config.directQueue)),
                 proxyExternalRequest: "fetch",
             },
             routePreloadingBehavior: config.routePreloadingBehavior || "none",
@@ -25,54 +42,167 @@ export function defineAzureConfig(config: AzureConfig = {}): OpenNextConfig {
             external: false,
         },
         imageOptimization: {
-            loader: resolveImageLoader(config.imageLoader),
+            loader: withStorageConfig(config, resolveImageLoader(config.imageLoader)),
         },
         dangerous: config.dangerous,
         buildCommand: config.buildCommand,
         buildOutputPath: config.buildOutputPath || ".",
         appPath: config.appPath || ".",
         packageJsonPath: config.packageJsonPath,
+        azure: {
+            functionsModel: config.functionsModel || "v3",
+            staticAssets: config.staticAssets || {},
+            queue: typeof config.queue === "string" ? config.queue : config.queue ? undefined : "azure-queue",
+            keyPrefix: config.storage?.keyPrefix,
+        },
+    };
+}
+
+/**
+ * Overrides read their settings from the environment (see getAzureConfig). Settings given in
+ * defineAzureConfig are applied to the environment when the override is loaded at runtime,
+ * app settings of the Function App take precedence.
+ */
+function withStorageConfig<T>(config: AzureConfig, loader: () => Promise<T>): () => Promise<T> {
+    const settings: Record<string, string | number | undefined> = {
+        AZURE_STORAGE_KEY_PREFIX: config.storage?.keyPrefix,
+        AZURE_QUEUE_DEDUP_WINDOW_MS: config.queueDeduplicationWindowMs,
+        AZURE_STORAGE_TIMEOUT_MS: config.resilience?.timeoutMs,
+        AZURE_STORAGE_MAX_RETRIES: config.resilience?.maxRetries,
+        AZURE_STORAGE_RETRY_DELAY_MS: config.resilience?.retryDelayMs,
+        AZURE_STORAGE_CIRCUIT_BREAKER_THRESHOLD: config.resilience?.circuitBreakerThreshold,
+        AZURE_STORAGE_CIRCUIT_BREAKER_RESET_MS: config.resilience?.circuitBreakerResetMs,
+        AZURE_STATIC_ASSETS_MODE: config.staticAssets?.mode,
+        AZURE_STATIC_ASSETS_HOST: config.staticAssets?.host,
+    };
+
+    return () => {
+        for (const [name, value] of Object.entries(settings)) {
+            if (value !== undefined && !process.env[name]) {
+                process.env[name] = String(value);
+            }
+        }
+        return loader();
+    };
+}
+
+function resolveIncremental({ incrementalCache, composableCache, memoryCache, cacheCompression }: AzureConfig) {
+    const loader = resolveComposable(
+        resolveIncrementalLoader(incrementalCache, cacheCompression),
+        // Blob Storage is only the default when the incremental cache uses it too
+        composableCache ?? (!incrementalCache || incrementalCache === "azure-blob" ? "azure-blob" : "incremental"),
+        cacheCompression
+    );
+    if (!memoryCache) {
+        return loader;
+    }
+
+    const options = memoryCache === true ? {} : memoryCache;
+    return async () => {
+        const [cache, { withMemoryCache }] = await Promise.all([
+            loader(),
+            import("../overrides/incrementalCache/memory-lru.js"),
+        ]);
+        return withMemoryCache(cache, options);
     };
 }
 
-function resolveIncremental(value?: AzureConfig["incrementalCache"]) {
+function resolveComposable(
+    loader: () => Promise<IncrementalCache>,
+    value: NonNullable<AzureConfig["composableCache"]>,
+    compression?: AzureConfig["cacheCompression"]
+): () => Promise<IncrementalCache> {
+    if (value === "incremental") {
+        return loader;
+    }
+
+    return async () => {
+        const [cache, { default: AzureBlobComposableCache, withComposableCache }] = await Promise.all([
+            loader(),
+            import("../overrides/composableCache/azure-blob.js"),
+        ]);
+        const composableCache = value === "azure-blob" ? new AzureBlobComposableCache({ compression }) : value;
+        return withComposableCache(cache, composableCache);
+    };
+}
+
+function resolveIncrementalLoader(
+    value?: AzureConfig["incrementalCache"],
+    compression?: AzureConfig["cacheCompression"]
+): () => Promise<IncrementalCache> {
     if (!value || value === "azure-blob") {
-        return () => import("../overrides/incrementalCache/azure-blob.js").then(m => new m.default());
+        return () => import("../overrides/incrementalCache/azure-blob.js").then(m => new m.default({ compression }));
+    }
+    if (value === "azure-redis") {
+        return () => import("../overrides/incrementalCache/azure-redis.js").then(m => new m.default());
     }
     if (typeof value === "function") {
         return value;
     }
-    return () => value as IncrementalCache;
+    return async () => value as IncrementalCache;
 }
 
-function resolveTag(value?: AzureConfig["tagCache"]) {
+function resolveTag(value?: AzureConfig["tagCache"]): () => Promise<TagCache> {
     if (!value || value === "azure-table") {
         return () => import("../overrides/tagCache/azure-table.js").then(m => new m.default());
     }
+    if (value === "azure-table-nextmode") {
+        return () => import("../overrides/tagCache/azure-table-nextmode.js").then(m => new m.default());
+    }
+    if (value === "azure-redis") {
+        return () => import("../overrides/tagCache/azure-redis.js").then(m => new m.default());
+    }
+    if (value === "azure-cosmos") {
+        return () => import("../overrides/tagCache/azure-cosmos.js").then(m => new m.default());
+    }
     if (typeof value === "function") {
         return value;
     }
-    return () => value as TagCache;
+    return async () => value as TagCache;
 }
 
-function resolveQueue(value?: AzureConfig["queue"]) {
+function resolveQueue(value?: AzureConfig["queue"], directQueue?: AzureConfig["directQueue"]): () => Promise<Queue> {
     if (!value || value === "azure-queue") {
         return () => import("../overrides/queue/azure-queue.js").then(m => new m.default());
     }
+    if (value === "azure-service-bus") {
+        return () => import("../overrides/queue/azure-service-bus.js").then(m => new m.default());
+    }
+    if (value === "direct") {
+        return () => import("../overrides/queue/direct.js").then(m => new m.default(directQueue));
+    }
     if (typeof value === "function") {
         return value;
     }
-    return () => value as Queue;
+    return async () => value as Queue;
 }
 
-function resolveImageLoader(value?: AzureConfig["imageLoader"]) {
+function resolveImageLoader(value?: AzureConfig["imageLoader"]): () => Promise<ImageLoader> {
     if (!value || value === "azure-blob") {
         return () => import("../overrides/imageLoader/azure-blob.js").then(m => m.default);
     }
     if (typeof value === "function") {
         return value;
     }
-    return () => value as ImageLoader;
+    return async () => value as ImageLoader;
+}
+
+/**
+ * Gets the Next.js build ID.
+ * The server function sets NEXT_BUILD_ID when it loads, the image optimization function doesn't,
+ * so fall back to the .next/BUILD_ID file next to the bundled handler.
+ */
+export function getBuildId(): string | undefined {
+    if (process.env.NEXT_BUILD_ID) {
+        return process.env.NEXT_BUILD_ID;
+    }
+
+    try {
+        const currentDir = path.dirname(fileURLToPath(import.meta.url));
+        return fs.readFileSync(path.join(currentDir, ".next/BUILD_ID"), "utf-8").trim();
+    } catch {
+        return undefined;
+    }
 }
 
 /**
@@ -89,9 +219,50 @@ export function getAzureConfig() {
             connectionString: process.env.AZURE_STORAGE_CONNECTION_STRING,
             accountName: process.env.AZURE_STORAGE_ACCOUNT_NAME,
             accountKey: process.env.AZURE_STORAGE_ACCOUNT_KEY,
+            managedIdentityClientId: process.env.AZURE_CLIENT_ID,
             containerName: process.env.AZURE_STORAGE_CONTAINER_NAME || "nextjs-cache",
             tableName: process.env.AZURE_TABLE_NAME || "nextjstags",
             queueName: process.env.AZURE_QUEUE_NAME || "nextjsrevalidation",
+            keyPrefix: process.env.AZURE_STORAGE_KEY_PREFIX || undefined,
+        },
+        queue: {
+            deduplicationWindowMs: Number(process.env.AZURE_QUEUE_DEDUP_WINDOW_MS || 10000),
+        },
+        resilience: {
+            timeoutMs: Number(process.env.AZURE_STORAGE_TIMEOUT_MS || 5000),
+            maxRetries: Number(process.env.AZURE_STORAGE_MAX_RETRIES || 2),
+            retryDelayMs: Number(process.env.AZURE_STORAGE_RETRY_DELAY_MS || 100),
+            circuitBreakerThreshold: Number(process.env.AZURE_STORAGE_CIRCUIT_BREAKER_THRESHOLD || 5),
+            circuitBreakerResetMs: Number(process.env.AZURE_STORAGE_CIRCUIT_BREAKER_RESET_MS || 30000),
+        },
+        staticAssets: {
+            mode: (process.env.AZURE_STATIC_ASSETS_MODE as StaticAssetsMode) || "redirect",
+            // Defaults to the URL of the assets container
+            host: process.env.AZURE_STATIC_ASSETS_HOST || undefined,
+        },
+        redis: {
+            url: process.env.AZURE_REDIS_URL,
+        },
+        serviceBus: {
+            connectionString: process.env.AZURE_SERVICE_BUS_CONNECTION_STRING,
+            // Fully qualified namespace (e.g. "myapp-bus.servicebus.windows.net"), used with managed identity
+            namespace: process.env.AZURE_SERVICE_BUS_NAMESPACE,
+            queueName: process.env.AZURE_SERVICE_BUS_QUEUE || "nextjsrevalidation",
+        },
+        cosmos: {
+            endpoint: process.env.AZURE_COSMOS_ENDPOINT,
+            key: process.env.AZURE_COSMOS_KEY,
+            databaseName: process.env.AZURE_COSMOS_DATABASE || "nextjs",
+            containerName: process.env.AZURE_COSMOS_CONTAINER || "tags",
         },
     };
 }
+
+/**
+ * Prefixes a key with the storage namespace (storage.keyPrefix), if one is configured.
+ * Example: "abc123/products" → "shop/abc123/products"
+ */
+export function namespaceKey(key: string): string {
+    const { storage } = getAzureConfig();
+    return storage.keyPrefix ? `${storage.keyPrefix}/${key}` : key;
+}
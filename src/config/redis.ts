@@ -0,0 +1,68 @@
+import { createClient, type RedisClientType } from "redis";
+import { getAzureConfig } from "./index.js";
+import { withResilience } from "./resilience.js";
+
+let clientPromise: Promise<RedisClientType> | undefined;
+
+/**
+ * Returns a connected Redis client shared by the Redis overrides of this instance,
+ * or undefined when AZURE_REDIS_URL isn't set.
+ *
+ * Azure Cache for Redis only accepts TLS connections: rediss://:<access key>@<name>.redis.cache.windows.net:6380
+ */
+export function getRedisClient(): Promise<RedisClientType> | undefined {
+    const { redis } = getAzureConfig();
+
+    if (!redis.url) {
+        return undefined;
+    }
+
+    if (!clientPromise) {
+        const client: RedisClientType = createClient({ url: redis.url });
+        // Without a listener, connection errors crash the process
+        client.on("error", error => {
+            process.stderr.write(`Redis client error: ${error}\n`);
+        });
+        clientPromise = client.connect().then(
+            () => client,
+            error => {
+                clientPromise = undefined;
+                throw error;
+            }
+        );
+    }
+
+    return clientPromise;
+}
+
+/**
+ * Runs a Redis operation with the resilience policy of the storage overrides (timeout, retries,
+ * "redis" circuit). Pass the abort signal to commands with commandOptions({ signal }): it drops commands
+ * still queued while the client reconnects, instead of waiting for the connection to come back.
+ */
+export async function withRedis<T>(
+    operation: (client: RedisClientType, abortSignal: AbortSignal) => Promise<T>
+): Promise<T> {
+    if (!getAzureConfig().redis.url) {
+        throw new Error("Azure Redis not configured (AZURE_REDIS_URL is not set)");
+    }
+
+    // Requested on every attempt, a failed connection is retried with a new client
+    return withResilience("redis", async abortSignal => operation(await getRedisClient()!, abortSignal));
+}
+
+/**
+ * Types of the keys written by the Redis overrides, the part after the build ID: entries of the
+ * incremental cache by cache type, and the tag cache's tag sets and path hashes.
+ */
+export const REDIS_KEY_TYPES = ["cache", "fetch", "composable", "tag", "path"] as const;
+
+/**
+ * Namespaces keys by app (storage.keyPrefix, "nextjs" by default) and build ID,
+ * so entries of other apps or of a previous deployment are never read.
+ * Example: "nextjs:abc123:tag:product"
+ */
+export function buildRedisKey(...parts: string[]): string {
+    const { storage } = getAzureConfig();
+    return [storage.keyPrefix || "nextjs", process.env.NEXT_BUILD_ID ?? "", ...parts].join(":");
+}
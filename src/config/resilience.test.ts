@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { StorageNotConfiguredError, isTransient, withResilience } from "./resilience.js";
+
+describe("isTransient", () => {
+    it.each([
+        ["a throttled request", { statusCode: 429 }],
+        ["a server error", { statusCode: 503 }],
+        ["a Cosmos DB throttling error", { code: 429 }],
+        ["a reset connection", Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })],
+        ["a failed fetch", Object.assign(new TypeError("fetch failed"), { cause: { code: "ETIMEDOUT" } })],
+        ["a timed out attempt", Object.assign(new Error("aborted"), { name: "AbortError" })],
+    ])("retries %s", (_name, error) => {
+        expect(isTransient(error)).toBe(true);
+    });
+
+    it.each([
+        ["a missing entry", { statusCode: 404 }],
+        ["a lost precondition", { statusCode: 412 }],
+        ["a missing client", new TypeError("Cannot read properties of undefined (reading 'getBlobClient')")],
+        ["invalid JSON", new SyntaxError("Unexpected token")],
+        ["missing configuration", new StorageNotConfiguredError("Azure Blob Storage")],
+    ])("doesn't retry %s", (_name, error) => {
+        expect(isTransient(error)).toBe(false);
+    });
+});
+
+describe("withResilience", () => {
+    beforeEach(() => {
+        process.env.AZURE_STORAGE_MAX_RETRIES = "2";
+        process.env.AZURE_STORAGE_RETRY_DELAY_MS = "1";
+    });
+
+    it("fails at once on errors of our own", async () => {
+        const operation = vi.fn(async () => {
+            throw new TypeError("containerClient is undefined");
+        });
+
+        await expect(withResilience("test-own-error", operation)).rejects.toThrow(TypeError);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries transient failures", async () => {
+        const operation = vi
+            .fn<[AbortSignal], Promise<string>>()
+            .mockRejectedValueOnce({ statusCode: 503 })
+            .mockResolvedValueOnce("ok");
+
+        await expect(withResilience("test-transient", operation)).resolves.toBe("ok");
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+});
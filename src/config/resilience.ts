@@ -0,0 +1,187 @@
+import { getAzureConfig } from "./index.js";
+
+/**
+ * Thrown instead of calling storage while the circuit of a dependency is open.
+ * Overrides treat it like any other storage failure (cache miss), without logging it per request.
+ */
+export class CircuitOpenError extends Error {
+    constructor(dependency: string) {
+        super(`Circuit open for ${dependency}`);
+        this.name = "CircuitOpenError";
+    }
+}
+
+/**
+ * Thrown by an override whose storage client couldn't be created, because no connection settings were found.
+ * Not transient: the call fails at once instead of going through the retries.
+ */
+export class StorageNotConfiguredError extends Error {
+    constructor(service: string) {
+        super(`${service} not configured`);
+        this.name = "StorageNotConfiguredError";
+    }
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Opens after `threshold` consecutive failed operations and rejects calls for `resetMs`.
+ * Then a single trial call is let through (half-open): success closes the circuit, failure reopens it.
+ */
+class CircuitBreaker {
+    private state: CircuitState = "closed";
+    private failures = 0;
+    private openedAt = 0;
+
+    constructor(
+        private readonly dependency: string,
+        private readonly threshold: number,
+        private readonly resetMs: number
+    ) {}
+
+    canRequest(): boolean {
+        if (this.state === "open" && Date.now() - this.openedAt >= this.resetMs) {
+            this.state = "half-open";
+            return true;
+        }
+        return this.state === "closed";
+    }
+
+    recordSuccess(): void {
+        if (this.state !== "closed") {
+            process.stderr.write(`Circuit closed for ${this.dependency}\n`);
+        }
+        this.state = "closed";
+        this.failures = 0;
+    }
+
+    recordFailure(): void {
+        this.failures++;
+        if (this.state === "half-open" || (this.state === "closed" && this.failures >= this.threshold)) {
+            process.stderr.write(`Circuit opened for ${this.dependency} after ${this.failures} failure(s)\n`);
+            this.state = "open";
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function getCircuitBreaker(dependency: string): CircuitBreaker {
+    let breaker = breakers.get(dependency);
+    if (!breaker) {
+        const { resilience } = getAzureConfig();
+        breaker = new CircuitBreaker(dependency, resilience.circuitBreakerThreshold, resilience.circuitBreakerResetMs);
+        breakers.set(dependency, breaker);
+    }
+    return breaker;
+}
+
+// Socket and DNS failures worth retrying, reported in error.code (or error.cause.code for fetch)
+const TRANSIENT_NETWORK_CODES = new Set([
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "EPIPE",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    "REQUEST_SEND_ERROR",
+]);
+
+// Errors of a timed out attempt (AbortSignal.timeout) and of a dropped Redis connection
+const TRANSIENT_ERROR_NAMES = new Set([
+    "AbortError",
+    "TimeoutError",
+    "ConnectionTimeoutError",
+    "SocketClosedUnexpectedlyError",
+]);
+
+/**
+ * Only throttling, server errors, timeouts and network failures are retried and counted against the circuit.
+ * Responses that prove the service is healthy (not found, precondition failed, not modified, ...) and
+ * errors of our own (missing configuration, invalid JSON, bugs) are returned to the caller at once.
+ */
+export function isTransient(error: any): boolean {
+    // Cosmos DB reports the HTTP status in code
+    const status = error?.statusCode ?? (typeof error?.code === "number" ? error.code : undefined);
+    if (status !== undefined) {
+        return status === 408 || status === 429 || status >= 500;
+    }
+
+    return (
+        TRANSIENT_ERROR_NAMES.has(error?.name) ||
+        TRANSIENT_NETWORK_CODES.has(error?.code) ||
+        TRANSIENT_NETWORK_CODES.has(error?.cause?.code)
+    );
+}
+
+/**
+ * Runs a storage operation with the resilience policy of getAzureConfig():
+ * - each attempt is aborted after timeoutMs
+ * - transient failures are retried up to maxRetries times with exponential backoff
+ * - the circuit of the dependency opens after repeated failures, failing fast with CircuitOpenError
+ *
+ * SDK clients are created without their own retries (see credentials.ts), so this is the only retry loop.
+ */
+export async function withResilience<T>(
+    dependency: string,
+    operation: (abortSignal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const { resilience } = getAzureConfig();
+    const breaker = getCircuitBreaker(dependency);
+
+    if (!breaker.canRequest()) {
+        throw new CircuitOpenError(dependency);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const result = await operation(AbortSignal.timeout(resilience.timeoutMs));
+            breaker.recordSuccess();
+            return result;
+        } catch (error) {
+            if (!isTransient(error)) {
+                // A response from the service proves it is up, errors of our own say nothing about it
+                if ((error as any)?.statusCode !== undefined) {
+                    breaker.recordSuccess();
+                }
+                throw error;
+            }
+            if (attempt >= resilience.maxRetries) {
+                breaker.recordFailure();
+                throw error;
+            }
+            await new Promise(resolve => setTimeout(resolve, resilience.retryDelayMs * 2 ** attempt));
+        }
+    }
+}
+
+/**
+ * Limits the per-attempt timeout of a download to the time to first byte: the signal passed to `request`
+ * follows `abortSignal` until the response arrives, the body is then read without a time limit,
+ * so large entries on a slow link don't time out on every retry and open the circuit.
+ */
+export async function untilFirstByte<T>(
+    abortSignal: AbortSignal,
+    request: (abortSignal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const controller = new AbortController();
+    const onTimeout = () => controller.abort(abortSignal.reason);
+    abortSignal.addEventListener("abort", onTimeout, { once: true });
+    try {
+        return await request(controller.signal);
+    } finally {
+        abortSignal.removeEventListener("abort", onTimeout);
+    }
+}
+
+/**
+ * Logs a failed storage operation, except for rejections of an open circuit
+ * (logged once when the circuit opens).
+ */
+export function logStorageError(message: string, error: unknown): void {
+    if (!(error instanceof CircuitOpenError)) {
+        process.stderr.write(`${message}: ${error}\n`);
+    }
+}
@@ -0,0 +1,25 @@
+import { ServiceBusClient, type ServiceBusSender } from "@azure/service-bus";
+import { getAzureConfig } from "./index.js";
+import { getTokenCredential } from "./credentials.js";
+
+/**
+ * Creates the sender used by the "azure-service-bus" queue, or undefined when neither
+ * AZURE_SERVICE_BUS_CONNECTION_STRING nor AZURE_SERVICE_BUS_NAMESPACE is set.
+ *
+ * Authenticates with the connection string when set, otherwise with the managed identity
+ * (requires the Azure Service Bus Data Owner role, assigned by the Bicep template).
+ */
+export function createServiceBusSender(): ServiceBusSender | undefined {
+    const { serviceBus, storage } = getAzureConfig();
+
+    if (serviceBus.connectionString) {
+        return new ServiceBusClient(serviceBus.connectionString).createSender(serviceBus.queueName);
+    }
+
+    if (serviceBus.namespace) {
+        const client = new ServiceBusClient(serviceBus.namespace, getTokenCredential(storage.managedIdentityClientId));
+        return client.createSender(serviceBus.queueName);
+    }
+
+    return undefined;
+}
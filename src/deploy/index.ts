@@ -3,10 +3,33 @@ import { promisify } from "node:util";
 import fs from "node:fs/promises";
 import { existsSync } from "node:fs";
 import path from "node:path";
+import { TableClient, type TransactionAction } from "@azure/data-tables";
 import { greenCheck, redX } from "../cli/log.js";
+import { copyBicepTemplates } from "../cli/init.js";
+import { listFiles, readBuildSettings } from "../cli/prepare-functions.js";
+import { CosmosClient, type OperationInput } from "@azure/cosmos";
+import {
+    getCosmosAccountKeys,
+    getFunctionAppSetting,
+    getStorageAccountName,
+    getStorageConnectionString,
+} from "./storage.js";
+import {
+    expireCosmosBuilds,
+    expireRedisBuilds,
+    formatBytes,
+    pruneBuildGenerations,
+    readBuildOutputBuildId,
+} from "./prune.js";
+import { encodeTableKey, toInt64 } from "../overrides/tagCache/table-keys.js";
+import { buildCosmosTagItem } from "../overrides/tagCache/azure-cosmos.js";
+import { executeBulk } from "../config/cosmos.js";
 
 const execAsync = promisify(exec);
 
+// Days the Cosmos DB items and Redis keys of a superseded build are kept, for instances still serving it
+const DEFAULT_PREVIOUS_BUILD_TTL_DAYS = 7;
+
 const colors = {
     green: "\x1b[32m",
     red: "\x1b[31m",
@@ -22,8 +45,23 @@ interface DeployOptions {
     skipInfrastructure?: boolean;
     skipResourceChecks?: boolean;
     applicationInsights?: boolean;
+    managedIdentity?: ManagedIdentityType;
+    /** Provision Azure Cache for Redis for the "azure-redis" overrides */
+    redis?: boolean;
+    /** Namespace for keys in shared storage accounts, set as the AZURE_STORAGE_KEY_PREFIX app setting */
+    keyPrefix?: string;
+    /** Provision Cosmos DB for the "azure-cosmos" tag cache (also seeds it instead of the tag table) */
+    cosmos?: boolean;
+    /** Days the Cosmos DB items and Redis keys of a superseded build are kept after deploy (default: 7) */
+    previousBuildTtlDays?: number;
+    /** Provision a Service Bus queue for the "azure-service-bus" revalidation queue */
+    serviceBus?: boolean;
+    /** Number of previous builds to keep when pruning cached data after deploy (disabled when unset) */
+    pruneCache?: number;
 }
 
+export type ManagedIdentityType = "None" | "SystemAssigned" | "UserAssigned";
+
 export async function deploy(options: DeployOptions): Promise<void> {
     const {
         appName,
@@ -46,7 +84,13 @@ export async function deploy(options: DeployOptions): Promise<void> {
         if (!skipResourceChecks) {
             await checkAzureSubscriptionPermissions();
             await checkLocation(location);
-            await checkRequiredProviders(options.applicationInsights);
+            await checkRequiredProviders(
+                options.applicationInsights,
+                options.managedIdentity,
+                options.redis,
+                options.cosmos,
+                options.serviceBus
+            );
             await checkQuotaAvailability(location, environment);
         } else {
             console.log("Skipping resource checks (--skip-resource-checks)");
@@ -74,6 +118,11 @@ export async function deploy(options: DeployOptions): Promise<void> {
                 location,
                 environment,
                 applicationInsights: options.applicationInsights ?? false,
+                managedIdentity: options.managedIdentity ?? "None",
+                redis: options.redis ?? false,
+                cosmos: options.cosmos ?? false,
+                serviceBus: options.serviceBus ?? false,
+                keyPrefix: options.keyPrefix,
             });
             console.log(`  ${greenCheck()} Infrastructure ready`);
         } else {
@@ -85,13 +134,70 @@ export async function deploy(options: DeployOptions): Promise<void> {
         await uploadStaticAssets(appName, resourceGroup);
         console.log(`  ${greenCheck()} Assets uploaded`);
 
-        // Step 3: Deploy Function App
+        // Step 3: Pre-populate incremental cache with prerendered pages and fetch cache entries
+        console.log("Uploading prerendered cache entries...");
+        const uploadedEntries = await uploadCacheEntries(
+            resourceGroup,
+            deploymentOutputs?.containerName || "nextjs-cache",
+            options.keyPrefix
+        );
+        console.log(`  ${greenCheck()} Cache entries uploaded (${uploadedEntries} file(s))`);
+
+        // Step 4: Seed tag cache with tag/path pairs of pages pre-rendered at build time
+        console.log("Seeding tag cache...");
+        const seededRows = options.cosmos
+            ? await seedCosmosTagCache(resourceGroup, deploymentOutputs?.cosmosAccount, options.keyPrefix)
+            : await seedTagCache(resourceGroup, deploymentOutputs?.tableName || "nextjstags", options.keyPrefix);
+        console.log(`  ${greenCheck()} Tag cache seeded (${seededRows} row(s))`);
+
+        // Step 5: Deploy Function App
         console.log("Deploying Function App...");
         const functionAppName = deploymentOutputs?.functionApp || `${appName}-func-${environment}`;
         await deployFunctionApp(functionAppName, resourceGroup);
         console.log(`  ${greenCheck()} Function App deployed`);
 
-        // Step 4: Postflight checks and display detailed info
+        // Step 6: Expire the Cosmos DB items and Redis keys of superseded builds, now that the new build is live
+        const currentBuildId = await readBuildOutputBuildId();
+        const ttlDays = options.previousBuildTtlDays ?? DEFAULT_PREVIOUS_BUILD_TTL_DAYS;
+        if (options.cosmos && currentBuildId) {
+            console.log("Expiring Cosmos DB tag items of previous builds...");
+            const expiredItems = await expireCosmosBuilds({
+                ...(await getCosmosAccountKeys(resourceGroup, deploymentOutputs?.cosmosAccount)),
+                keyPrefix: options.keyPrefix,
+                currentBuildId,
+                ttlSeconds: ttlDays * 86400,
+            });
+            console.log(`  ${greenCheck()} ${expiredItems} item(s) expire in ${ttlDays} day(s)`);
+        }
+        const redisUrl = options.redis ? await getFunctionAppSetting(resourceGroup, "AZURE_REDIS_URL") : undefined;
+        if (redisUrl && currentBuildId) {
+            console.log("Expiring Redis keys of previous builds...");
+            const expiredKeys = await expireRedisBuilds({
+                url: redisUrl,
+                keyPrefix: options.keyPrefix,
+                currentBuildId,
+                ttlSeconds: ttlDays * 86400,
+            });
+            console.log(`  ${greenCheck()} ${expiredKeys} key(s) expire in ${ttlDays} day(s)`);
+        }
+
+        // Step 7: Prune cached data of old builds (opt-in)
+        if (options.pruneCache !== undefined && !Number.isNaN(options.pruneCache)) {
+            console.log("Pruning cached data of old builds...");
+            const result = await pruneBuildGenerations({
+                connectionString: await getStorageConnectionString(resourceGroup),
+                containerName: deploymentOutputs?.containerName || "nextjs-cache",
+                tableName: deploymentOutputs?.tableName || "nextjstags",
+                imageContainerName: "optimized-images",
+                keyPrefix: options.keyPrefix,
+                currentBuildId,
+                keep: options.pruneCache,
+            });
+            const bytes = result.pruned.reduce((total, build) => total + build.bytes, 0);
+            console.log(`  ${greenCheck()} Pruned ${result.pruned.length} build(s) (${formatBytes(bytes)})`);
+        }
+
+        // Step 8: Postflight checks and display detailed info
         await performPostflightChecks(
             resourceGroup,
             functionAppName,
@@ -122,7 +228,13 @@ async function checkAzureLogin(): Promise<void> {
     }
 }
 
-async function checkRequiredProviders(applicationInsights?: boolean): Promise<void> {
+async function checkRequiredProviders(
+    applicationInsights?: boolean,
+    managedIdentity?: ManagedIdentityType,
+    redis?: boolean,
+    cosmos?: boolean,
+    serviceBus?: boolean
+): Promise<void> {
     const requiredProviders = [
         "Microsoft.Web",
         "Microsoft.Storage",
@@ -135,6 +247,22 @@ async function checkRequiredProviders(applicationInsights?: boolean): Promise<vo
         requiredProviders.push("Microsoft.AlertsManagement");
     }
 
+    if (managedIdentity === "UserAssigned") {
+        requiredProviders.push("Microsoft.ManagedIdentity");
+    }
+
+    if (redis) {
+        requiredProviders.push("Microsoft.Cache");
+    }
+
+    if (cosmos) {
+        requiredProviders.push("Microsoft.DocumentDB");
+    }
+
+    if (serviceBus) {
+        requiredProviders.push("Microsoft.ServiceBus");
+    }
+
     console.log("Checking Azure resource providers...");
 
     for (const provider of requiredProviders) {
@@ -419,15 +547,8 @@ async function performPostflightChecks(
 }
 
 async function syncBicepTemplate(): Promise<void> {
-    // Sync infrastructure/main.bicep from package to ensure it matches this version
-    const { fileURLToPath } = await import("node:url");
-    const currentDir = path.dirname(fileURLToPath(import.meta.url));
-    const packageBicepPath = path.join(currentDir, "../infrastructure/main.bicep");
-    const projectBicepPath = path.join(process.cwd(), "infrastructure/main.bicep");
-
-    const bicepContent = await fs.readFile(packageBicepPath, "utf-8");
-    await fs.mkdir(path.dirname(projectBicepPath), { recursive: true });
-    await fs.writeFile(projectBicepPath, bicepContent);
+    // Sync infrastructure/main.bicep and its modules from package to ensure they match this version
+    await copyBicepTemplates(path.join(process.cwd(), "infrastructure"));
 }
 
 async function provisionInfrastructure(options: {
@@ -436,8 +557,24 @@ async function provisionInfrastructure(options: {
     location: string;
     environment: string;
     applicationInsights?: boolean;
+    managedIdentity?: ManagedIdentityType;
+    redis?: boolean;
+    cosmos?: boolean;
+    serviceBus?: boolean;
+    keyPrefix?: string;
 }): Promise<any> {
-    const { appName, resourceGroup, location, environment, applicationInsights } = options;
+    const {
+        appName,
+        resourceGroup,
+        location,
+        environment,
+        applicationInsights,
+        managedIdentity = "None",
+        redis,
+        cosmos,
+        serviceBus,
+        keyPrefix = "",
+    } = options;
 
     // Check if resource group exists
     const { stdout: rgExists } = await execAsync(`az group exists --name ${resourceGroup}`);
@@ -458,11 +595,14 @@ async function provisionInfrastructure(options: {
     const bicepPath = path.join(process.cwd(), "infrastructure/main.bicep");
 
     const enableAppInsights = applicationInsights ? "true" : "false";
+    const enableRedis = redis ? "true" : "false";
+    const enableCosmos = cosmos ? "true" : "false";
+    const enableServiceBus = serviceBus ? "true" : "false";
     const { stdout } = await execAsync(
         `az deployment group create \
       --resource-group ${resourceGroup} \
       --template-file ${bicepPath} \
-      --parameters appName=${appName} environment=${environment} enableApplicationInsights=${enableAppInsights} \
+      --parameters appName=${appName} environment=${environment} enableApplicationInsights=${enableAppInsights} managedIdentity=${managedIdentity} enableRedis=${enableRedis} enableCosmos=${enableCosmos} enableServiceBus=${enableServiceBus} keyPrefix="${keyPrefix}" \
       --query 'properties.outputs.deploymentInfo.value' \
       --output json`
     );
@@ -495,8 +635,14 @@ async function patchCSSForBlobStorage(assetsPath: string): Promise<void> {
 async function uploadStaticAssets(appName: string, resourceGroup: string): Promise<void> {
     const assetsPath = path.join(process.cwd(), ".open-next/assets");
 
-    // Patch CSS files to include /assets path for blob storage URLs
-    await patchCSSForBlobStorage(assetsPath);
+    // Patch CSS files to include /assets path for blob storage URLs. Only needed when the CSS itself
+    // is loaded from the assets container: not when proxied by the function or redirected to a CDN
+    // serving the container at its root
+    const { staticAssets } = await readBuildSettings();
+    const assetsHostPath = staticAssets?.host ? new URL(staticAssets.host).pathname.replace(/\/+$/, "") : "/assets";
+    if (staticAssets?.mode !== "proxy" && assetsHostPath === "/assets") {
+        await patchCSSForBlobStorage(assetsPath);
+    }
 
     // Get storage account name
     const { stdout } = await execAsync(
@@ -529,6 +675,145 @@ async function uploadStaticAssets(appName: string, resourceGroup: string): Promi
     }
 }
 
+/**
+ * Uploads .open-next/cache to the incremental cache container, so ISR/SSG pages are served
+ * from cache on the first request instead of being re-rendered by the Function.
+ *
+ * OpenNext lays the directory out as [buildId]/[key].cache and __fetch/[buildId]/[key], which matches
+ * AzureBlobIncrementalCache.buildBlobKey once its prefix (key prefix or container name) is added.
+ */
+async function uploadCacheEntries(resourceGroup: string, containerName: string, keyPrefix?: string): Promise<number> {
+    const cachePath = path.join(process.cwd(), ".open-next/cache");
+
+    if (!existsSync(cachePath)) {
+        return 0;
+    }
+
+    const fileCount = (await listFiles(cachePath)).length;
+
+    if (fileCount === 0) {
+        return 0;
+    }
+
+    const storageAccountName = await getStorageAccountName(resourceGroup);
+
+    await execAsync(
+        `az storage blob upload-batch \
+      --account-name ${storageAccountName} \
+      --destination ${containerName} \
+      --destination-path ${keyPrefix || containerName} \
+      --source ${cachePath} \
+      --content-type application/json \
+      --overwrite`,
+        {
+            maxBuffer: 100 * 1024 * 1024,
+        }
+    );
+
+    return fileCount;
+}
+
+async function readTagCacheSeed(): Promise<{ tag: { S: string }; path: { S: string } }[]> {
+    const cacheDataPath = path.join(process.cwd(), ".open-next/dynamodb-provider/dynamodb-cache.json");
+
+    if (!existsSync(cacheDataPath)) {
+        return [];
+    }
+
+    return JSON.parse(await fs.readFile(cacheDataPath, "utf-8"));
+}
+
+/**
+ * Bulk-inserts the tag/path pairs OpenNext collected at build time (the dynamodb-provider output)
+ * into the tag table, so AzureTableTagCache.getByTag finds pre-rendered pages before they are re-rendered.
+ *
+ * Rows are grouped by PartitionKey (tag) and written in entity group transactions of up to 100.
+ */
+async function seedTagCache(resourceGroup: string, tableName: string, keyPrefix?: string): Promise<number> {
+    const items = await readTagCacheSeed();
+    const namespace = (key: string) => (keyPrefix ? `${keyPrefix}/${key}` : key);
+
+    // Tags and paths are already prefixed with the build ID ("buildId/tag", "buildId/path")
+    const partitions = new Map<string, Map<string, TransactionAction>>();
+    for (const item of items) {
+        const partitionKey = encodeTableKey(namespace(item.tag.S));
+        const rowKey = encodeTableKey(namespace(item.path.S));
+
+        if (!partitions.has(partitionKey)) {
+            partitions.set(partitionKey, new Map());
+        }
+
+        // OpenNext may emit duplicates, a transaction can't touch the same row twice
+        partitions.get(partitionKey)!.set(rowKey, [
+            "upsert",
+            {
+                partitionKey,
+                rowKey,
+                // Only needs to exist, any revalidation after deploy will be newer
+                revalidatedAt: toInt64(1),
+            },
+            "Replace",
+        ]);
+    }
+
+    if (partitions.size === 0) {
+        return 0;
+    }
+
+    const connectionString = await getStorageConnectionString(resourceGroup);
+    const tableClient = TableClient.fromConnectionString(connectionString, tableName);
+
+    let written = 0;
+    for (const rows of partitions.values()) {
+        const actions = [...rows.values()];
+        for (let i = 0; i < actions.length; i += 100) {
+            const batch = actions.slice(i, i + 100);
+            await tableClient.submitTransaction(batch);
+            written += batch.length;
+        }
+    }
+
+    return written;
+}
+
+async function seedCosmosTagCache(
+    resourceGroup: string,
+    cosmosAccountName?: string,
+    keyPrefix?: string
+): Promise<number> {
+    const items = await readTagCacheSeed();
+
+    // Tags and paths are prefixed with the build ID ("buildId/tag"), Cosmos items are partitioned by it instead
+    const operations = new Map<string, OperationInput>();
+    for (const item of items) {
+        const separator = item.tag.S.indexOf("/");
+        const buildId = item.tag.S.slice(0, separator);
+        const partitionKey = keyPrefix ? `${keyPrefix}/${buildId}` : buildId;
+        const tagItem = buildCosmosTagItem(
+            partitionKey,
+            item.tag.S.slice(separator + 1),
+            item.path.S.slice(buildId.length + 1),
+            // Only needs to exist, any revalidation after deploy will be newer
+            1
+        );
+        operations.set(`${partitionKey}|${tagItem.id}`, {
+            operationType: "Upsert",
+            partitionKey,
+            resourceBody: { ...tagItem },
+        });
+    }
+
+    if (operations.size === 0) {
+        return 0;
+    }
+
+    const { endpoint, key } = await getCosmosAccountKeys(resourceGroup, cosmosAccountName);
+    const container = new CosmosClient({ endpoint, key }).database("nextjs").container("tags");
+    await executeBulk(container, [...operations.values()]);
+
+    return operations.size;
+}
+
 async function deployFunctionApp(functionAppName: string, resourceGroup: string): Promise<void> {
     const functionsPath = path.join(process.cwd(), ".open-next/server-functions/default");
 
@@ -0,0 +1,57 @@
+import { randomUUID } from "node:crypto";
+import { createClient } from "redis";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { TEST_REDIS_URL, isRedisReachable } from "../test/redis.js";
+import { expireRedisBuilds } from "./prune.js";
+
+const keyPrefix = `test-${randomUUID()}`;
+
+describe.skipIf(!(await isRedisReachable()))("expireRedisBuilds", () => {
+    const client = createClient({ url: TEST_REDIS_URL });
+
+    beforeAll(async () => {
+        await client.connect();
+    });
+
+    afterAll(async () => {
+        for await (const key of client.scanIterator({ MATCH: `${keyPrefix}*` })) {
+            await client.del(key);
+        }
+        await client.disconnect();
+    });
+
+    it("sets a TTL on the keys of previous builds only", async () => {
+        await client.hSet(`${keyPrefix}:old:cache:/page`, "value", "{}");
+        await client.sAdd(`${keyPrefix}:old:tag:products`, "/page");
+        await client.hSet(`${keyPrefix}:live:cache:/page`, "value", "{}");
+        // Namespace of another app sharing the cache
+        await client.hSet(`${keyPrefix}-other:old:cache:/page`, "value", "{}");
+        // Keys of the app itself in the namespace, not written by the overrides
+        await client.set(`${keyPrefix}:session:abc`, "user");
+        await client.set(`${keyPrefix}:old:sessions:abc`, "user");
+
+        const expired = await expireRedisBuilds({
+            url: TEST_REDIS_URL,
+            keyPrefix,
+            currentBuildId: "live",
+            ttlSeconds: 3600,
+        });
+
+        expect(expired).toBe(2);
+        expect(await client.ttl(`${keyPrefix}:old:cache:/page`)).toBeGreaterThan(0);
+        expect(await client.ttl(`${keyPrefix}:old:tag:products`)).toBeGreaterThan(0);
+        expect(await client.ttl(`${keyPrefix}:live:cache:/page`)).toBe(-1);
+        expect(await client.ttl(`${keyPrefix}-other:old:cache:/page`)).toBe(-1);
+        expect(await client.ttl(`${keyPrefix}:session:abc`)).toBe(-1);
+        expect(await client.ttl(`${keyPrefix}:old:sessions:abc`)).toBe(-1);
+    });
+
+    it("keeps the TTL set by an earlier deploy", async () => {
+        await client.hSet(`${keyPrefix}:older:cache:/page`, "value", "{}");
+        await client.expire(`${keyPrefix}:older:cache:/page`, 60);
+
+        await expireRedisBuilds({ url: TEST_REDIS_URL, keyPrefix, currentBuildId: "live", ttlSeconds: 3600 });
+
+        expect(await client.ttl(`${keyPrefix}:older:cache:/page`)).toBeLessThanOrEqual(60);
+    });
+});
@@ -0,0 +1,353 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { BlobServiceClient, type BlobClient } from "@azure/storage-blob";
+import { TableClient, type TransactionAction } from "@azure/data-tables";
+import { CosmosClient, type OperationInput } from "@azure/cosmos";
+import { createClient } from "redis";
+import { decodeTableKey } from "../overrides/tagCache/table-keys.js";
+import { executeBulk } from "../config/cosmos.js";
+import { REDIS_KEY_TYPES } from "../config/redis.js";
+
+// Blob batch requests accept at most 256 sub-requests
+const MAX_BLOB_BATCH_SIZE = 256;
+// Entity group transactions are limited to 100 operations on a single partition
+const MAX_TRANSACTION_SIZE = 100;
+// Keys read per SCAN call and updated per pipeline when expiring Redis builds
+const REDIS_SCAN_COUNT = 1000;
+// Optimized image key without a key prefix: "[16 hex chars of the source URL hash]/w[width]_q[quality].cache"
+const UNPREFIXED_IMAGE_KEY = /^[0-9a-f]{16}\/[^/]+$/;
+
+export interface PruneOptions {
+    connectionString: string;
+    containerName: string;
+    tableName: string;
+    imageContainerName?: string;
+    /** storage.keyPrefix of the app, only entries in its namespace are listed and pruned */
+    keyPrefix?: string;
+    /** Build ID of the live deployment, always kept */
+    currentBuildId?: string;
+    /** Number of previous builds to keep in addition to the current one */
+    keep: number;
+    dryRun?: boolean;
+}
+
+export interface BuildGeneration {
+    buildId: string;
+    firstSeen?: Date;
+    blobs: number;
+    bytes: number;
+    rows: number;
+}
+
+export interface PruneResult {
+    kept: BuildGeneration[];
+    pruned: BuildGeneration[];
+}
+
+interface BuildEntries extends BuildGeneration {
+    blobClients: BlobClient[];
+    tableRows: { partitionKey: string; rowKey: string }[];
+}
+
+function getEntries(builds: Map<string, BuildEntries>, buildId: string, seenAt?: Date): BuildEntries {
+    let entries = builds.get(buildId);
+    if (!entries) {
+        entries = { buildId, blobs: 0, bytes: 0, rows: 0, blobClients: [], tableRows: [] };
+        builds.set(buildId, entries);
+    }
+    // The earliest write of a build approximates when it was deployed
+    if (seenAt && (!entries.firstSeen || seenAt < entries.firstSeen)) {
+        entries.firstSeen = seenAt;
+    }
+    return entries;
+}
+
+function decodePartitionKey(partitionKey: string): string {
+    try {
+        return decodeTableKey(partitionKey);
+    } catch {
+        // Legacy unencoded key (see cache migrate-keys)
+        return partitionKey;
+    }
+}
+
+/**
+ * Lists every build generation found in storage:
+ * - nextjs-cache: [prefix]/[buildId]/..., [prefix]/__fetch/[buildId]/... and [prefix]/__composable/[buildId]/...
+ * - tag table: PartitionKey "[keyPrefix/]buildId/tag" (original mode) or "[keyPrefix/]buildId" (next mode)
+ * - optimized-images: "buildid" blob metadata written by the image cache
+ *
+ * Without a key prefix, entries under the namespace of another app sharing the storage account are skipped:
+ * optimized images must have the unprefixed key layout, and tag rows must belong to the current build or
+ * to a build found in the cache container, as the first segment of a prefixed row is the other app's prefix.
+ */
+export async function listBuildGenerations(
+    options: Omit<PruneOptions, "keep" | "dryRun">
+): Promise<Map<string, BuildEntries>> {
+    const builds = new Map<string, BuildEntries>();
+    const blobServiceClient = BlobServiceClient.fromConnectionString(options.connectionString);
+
+    // Incremental cache entries
+    const cacheContainer = blobServiceClient.getContainerClient(options.containerName);
+    const prefix = `${options.keyPrefix || options.containerName}/`;
+    for await (const blob of cacheContainer.listBlobsFlat({ prefix })) {
+        const segments = blob.name.slice(prefix.length).split("/");
+        const buildId = segments[0] === "__fetch" || segments[0] === "__composable" ? segments[1] : segments[0];
+        if (!buildId) {
+            continue;
+        }
+
+        const entries = getEntries(builds, buildId, blob.properties.createdOn);
+        entries.blobs++;
+        entries.bytes += blob.properties.contentLength ?? 0;
+        entries.blobClients.push(cacheContainer.getBlobClient(blob.name));
+    }
+
+    // Optimized images (blobs cached before build IDs were recorded are left alone)
+    if (options.imageContainerName) {
+        const imageContainer = blobServiceClient.getContainerClient(options.imageContainerName);
+        const imagePrefix = options.keyPrefix ? `${options.keyPrefix}/` : undefined;
+        for await (const blob of imageContainer.listBlobsFlat({ prefix: imagePrefix, includeMetadata: true })) {
+            const buildId = blob.metadata?.buildid;
+            if (!buildId || (!options.keyPrefix && !UNPREFIXED_IMAGE_KEY.test(blob.name))) {
+                continue;
+            }
+
+            const entries = getEntries(builds, buildId, blob.properties.createdOn);
+            entries.blobs++;
+            entries.bytes += blob.properties.contentLength ?? 0;
+            entries.blobClients.push(imageContainer.getBlobClient(blob.name));
+        }
+    }
+
+    // Tag cache rows
+    const tableClient = TableClient.fromConnectionString(options.connectionString, options.tableName);
+    const entities = tableClient.listEntities<{ timestamp?: string }>({
+        queryOptions: { select: ["PartitionKey", "RowKey", "Timestamp"] },
+    });
+    for await (const entity of entities) {
+        if (!entity.partitionKey || !entity.rowKey) {
+            continue;
+        }
+
+        const partitionKey = decodePartitionKey(entity.partitionKey);
+        const namespace = options.keyPrefix ? `${options.keyPrefix}/` : "";
+        if (!partitionKey.startsWith(namespace)) {
+            continue;
+        }
+
+        const buildId = partitionKey.slice(namespace.length).split("/")[0];
+        if (!buildId) {
+            continue;
+        }
+        if (!options.keyPrefix && buildId !== options.currentBuildId && !builds.has(buildId)) {
+            // Possibly the key prefix of another app, never delete what isn't known to be ours
+            continue;
+        }
+
+        const entries = getEntries(builds, buildId, entity.timestamp ? new Date(entity.timestamp) : undefined);
+        entries.rows++;
+        entries.tableRows.push({ partitionKey: entity.partitionKey, rowKey: entity.rowKey });
+    }
+
+    return builds;
+}
+
+/**
+ * Deletes cache blobs, optimized images and tag rows of every build except the
+ * current one and the `keep` most recent previous ones.
+ */
+export async function pruneBuildGenerations(options: PruneOptions): Promise<PruneResult> {
+    const builds = await listBuildGenerations(options);
+
+    // Newest first
+    const sorted = [...builds.values()].sort((a, b) => (b.firstSeen?.getTime() ?? 0) - (a.firstSeen?.getTime() ?? 0));
+
+    const current = options.currentBuildId ?? sorted[0]?.buildId;
+    const previous = sorted.filter(build => build.buildId !== current);
+    const keptIds = new Set([current, ...previous.slice(0, options.keep).map(build => build.buildId)]);
+
+    const kept = sorted.filter(build => keptIds.has(build.buildId));
+    const pruned = sorted.filter(build => !keptIds.has(build.buildId));
+
+    if (!options.dryRun) {
+        const blobServiceClient = BlobServiceClient.fromConnectionString(options.connectionString);
+        const batchClient = blobServiceClient.getBlobBatchClient();
+        const tableClient = TableClient.fromConnectionString(options.connectionString, options.tableName);
+
+        for (const build of pruned) {
+            for (let i = 0; i < build.blobClients.length; i += MAX_BLOB_BATCH_SIZE) {
+                await batchClient.deleteBlobs(build.blobClients.slice(i, i + MAX_BLOB_BATCH_SIZE));
+            }
+
+            const partitions = new Map<string, TransactionAction[]>();
+            for (const { partitionKey, rowKey } of build.tableRows) {
+                if (!partitions.has(partitionKey)) {
+                    partitions.set(partitionKey, []);
+                }
+                partitions.get(partitionKey)!.push(["delete", { partitionKey, rowKey }]);
+            }
+
+            for (const actions of partitions.values()) {
+                for (let i = 0; i < actions.length; i += MAX_TRANSACTION_SIZE) {
+                    await tableClient.submitTransaction(actions.slice(i, i + MAX_TRANSACTION_SIZE));
+                }
+            }
+        }
+    }
+
+    const toGeneration = ({ buildId, firstSeen, blobs, bytes, rows }: BuildEntries): BuildGeneration => ({
+        buildId,
+        firstSeen,
+        blobs,
+        bytes,
+        rows,
+    });
+
+    return { kept: kept.map(toGeneration), pruned: pruned.map(toGeneration) };
+}
+
+export interface CosmosExpiryOptions {
+    endpoint: string;
+    key: string;
+    databaseName?: string;
+    containerName?: string;
+    /** storage.keyPrefix of the app, only partitions in its namespace are expired */
+    keyPrefix?: string;
+    /** Build ID of the live deployment, its items never expire */
+    currentBuildId: string;
+    /** Seconds the items of a superseded build are kept, for instances still serving it */
+    ttlSeconds: number;
+}
+
+/**
+ * Sets a per-item ttl on the Cosmos DB tag items of every build except the current one.
+ *
+ * The container has TTL enabled without a default (defaultTtl -1, see main.bicep), so items of the live
+ * build never expire, however long it stays deployed. Cosmos counts the ttl from the item's last write,
+ * so a superseded build is removed ttlSeconds after the deploy that replaced it. Items that already
+ * have a ttl are left alone, which keeps the countdown started by an earlier deploy.
+ */
+export async function expireCosmosBuilds(options: CosmosExpiryOptions): Promise<number> {
+    const container = new CosmosClient({ endpoint: options.endpoint, key: options.key })
+        .database(options.databaseName ?? "nextjs")
+        .container(options.containerName ?? "tags");
+
+    // Partitions are "[keyPrefix/]buildId": without a key prefix, partitions with a "/" belong to other apps
+    const namespace = options.keyPrefix ? `${options.keyPrefix}/` : "";
+    const current = `${namespace}${options.currentBuildId}`;
+    const { resources } = await container.items
+        .query<{ id: string; buildId: string }>({
+            query: `SELECT c.id, c.buildId FROM c WHERE c.buildId != @current AND NOT IS_DEFINED(c.ttl) AND ${
+                namespace ? "STARTSWITH(c.buildId, @namespace)" : "NOT CONTAINS(c.buildId, '/')"
+            }`,
+            parameters: [
+                { name: "@current", value: current },
+                { name: "@namespace", value: namespace },
+            ],
+        })
+        .fetchAll();
+
+    const operations: OperationInput[] = resources
+        .filter(item => !item.buildId.slice(namespace.length).includes("/"))
+        .map(item => ({
+            operationType: "Patch",
+            id: item.id,
+            partitionKey: item.buildId,
+            resourceBody: { operations: [{ op: "add", path: "/ttl", value: options.ttlSeconds }] },
+        }));
+
+    // 404: expired or deleted since the query
+    const missing = await executeBulk(container, operations, [404]);
+
+    return operations.length - missing.length;
+}
+
+export interface RedisExpiryOptions {
+    /** AZURE_REDIS_URL of the Function App */
+    url: string;
+    /** storage.keyPrefix of the app, only keys in its namespace are expired */
+    keyPrefix?: string;
+    /** Build ID of the live deployment, its keys never expire */
+    currentBuildId: string;
+    /** Seconds the keys of a superseded build are kept, for instances still serving it */
+    ttlSeconds: number;
+}
+
+/**
+ * Sets a TTL on the Redis keys ("[keyPrefix]:[buildId]:[type]:...", see buildRedisKey) of every build except
+ * the current one, the Redis counterpart of expireCosmosBuilds. Keys that already expire keep their TTL, and
+ * writes to an existing key don't clear it, so an instance still serving an old build can't revive it.
+ * Only keys of the types the overrides write (REDIS_KEY_TYPES) are touched, other keys in the namespace
+ * (e.g. sessions stored by the app itself) are left alone.
+ */
+export async function expireRedisBuilds(options: RedisExpiryOptions): Promise<number> {
+    const client = createClient({ url: options.url });
+    await client.connect();
+
+    try {
+        const namespace = `${options.keyPrefix || "nextjs"}:`;
+        const current = `${namespace}${options.currentBuildId}:`;
+        // "[buildId]:[type]:" after the namespace, build IDs never contain ":"
+        const owned = new RegExp(`^[^:]+:(?:${REDIS_KEY_TYPES.join("|")}):`);
+        let expired = 0;
+        let batch: string[] = [];
+
+        // The namespace is matched as a glob pattern
+        const match = `${namespace.replace(/[*?[\]\\]/g, "\\$&")}*`;
+        for await (const key of client.scanIterator({ MATCH: match, COUNT: REDIS_SCAN_COUNT })) {
+            if (!key.startsWith(current) && owned.test(key.slice(namespace.length))) {
+                batch.push(key);
+            }
+            if (batch.length >= REDIS_SCAN_COUNT) {
+                expired += await expireRedisKeys(client, batch, options.ttlSeconds);
+                batch = [];
+            }
+        }
+        expired += await expireRedisKeys(client, batch, options.ttlSeconds);
+
+        return expired;
+    } finally {
+        await client.disconnect();
+    }
+}
+
+async function expireRedisKeys(
+    client: ReturnType<typeof createClient>,
+    keys: string[],
+    ttlSeconds: number
+): Promise<number> {
+    if (keys.length === 0) {
+        return 0;
+    }
+
+    // -1: the key exists without a TTL
+    const ttls = await Promise.all(keys.map(key => client.ttl(key)));
+    const persistent = keys.filter((_key, i) => ttls[i] === -1);
+    await Promise.all(persistent.map(key => client.expire(key, ttlSeconds)));
+
+    return persistent.length;
+}
+
+/**
+ * Reads the build ID of the local build output (the build being deployed).
+ */
+export async function readBuildOutputBuildId(): Promise<string | undefined> {
+    try {
+        const buildIdPath = path.join(process.cwd(), ".open-next/server-functions/default/.next/BUILD_ID");
+        return (await fs.readFile(buildIdPath, "utf-8")).trim();
+    } catch {
+        return undefined;
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
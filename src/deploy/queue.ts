@@ -0,0 +1,161 @@
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+import { QueueServiceClient, type QueueClient } from "@azure/storage-queue";
+import { decodeRevalidationMessage } from "../adapters/revalidation.js";
+
+const execAsync = promisify(exec);
+
+// Peek and receive return at most 32 messages per call
+const MAX_MESSAGES_PER_CALL = 32;
+// Time a received poison message stays invisible while it is moved back
+const REQUEUE_VISIBILITY_TIMEOUT_SECONDS = 30;
+
+export interface QueueStats {
+    name: string;
+    exists: boolean;
+    /** Approximate number of messages, including invisible ones being processed or retried */
+    depth: number;
+    /** Age of the oldest visible message in milliseconds */
+    oldestMessageAgeMs?: number;
+}
+
+export interface ServiceBusQueueStats {
+    name: string;
+    activeMessages: number;
+    /** Messages moved to the dead-letter queue after maxDeliveryCount failed deliveries */
+    deadLetterMessages: number;
+}
+
+export interface PoisonMessage {
+    messageId: string;
+    insertedOn?: Date;
+    dequeueCount: number;
+    /** "host/url" of the revalidation, or the raw message text when it can't be decoded */
+    summary: string;
+}
+
+/**
+ * The Functions host moves messages that failed maxDequeueCount times to "<queue>-poison".
+ */
+export function getPoisonQueueName(queueName: string): string {
+    return `${queueName}-poison`;
+}
+
+function getQueueClient(connectionString: string, queueName: string): QueueClient {
+    return QueueServiceClient.fromConnectionString(connectionString).getQueueClient(queueName);
+}
+
+export async function getQueueStats(connectionString: string, queueName: string): Promise<QueueStats> {
+    const queueClient = getQueueClient(connectionString, queueName);
+
+    if (!(await queueClient.exists())) {
+        // The poison queue is only created when the first message fails for good
+        return { name: queueName, exists: false, depth: 0 };
+    }
+
+    const properties = await queueClient.getProperties();
+    const { peekedMessageItems } = await queueClient.peekMessages({ numberOfMessages: 1 });
+    const oldest = peekedMessageItems[0]?.insertedOn;
+
+    return {
+        name: queueName,
+        exists: true,
+        depth: properties.approximateMessagesCount ?? 0,
+        oldestMessageAgeMs: oldest ? Date.now() - oldest.getTime() : undefined,
+    };
+}
+
+/**
+ * Reads the message counts of a Service Bus queue through the Azure CLI (management plane),
+ * which works without data-plane roles on the namespace.
+ */
+export async function getServiceBusQueueStats(
+    resourceGroup: string,
+    namespace: string,
+    queueName: string
+): Promise<ServiceBusQueueStats> {
+    const { stdout } = await execAsync(
+        `az servicebus queue show --resource-group ${resourceGroup} --namespace-name ${namespace} --name ${queueName} --query countDetails -o json`
+    );
+    const countDetails = JSON.parse(stdout);
+
+    return {
+        name: queueName,
+        activeMessages: countDetails.activeMessageCount ?? 0,
+        deadLetterMessages: countDetails.deadLetterMessageCount ?? 0,
+    };
+}
+
+function summarizeMessage(messageText: string): string {
+    try {
+        const message = decodeRevalidationMessage(messageText);
+        return `${message.host}${message.url}`;
+    } catch {
+        return messageText;
+    }
+}
+
+/**
+ * Lists poison messages without removing them (at most 32, the peek limit).
+ */
+export async function peekPoisonMessages(connectionString: string, queueName: string): Promise<PoisonMessage[]> {
+    const poisonClient = getQueueClient(connectionString, getPoisonQueueName(queueName));
+
+    if (!(await poisonClient.exists())) {
+        return [];
+    }
+
+    const { peekedMessageItems } = await poisonClient.peekMessages({ numberOfMessages: MAX_MESSAGES_PER_CALL });
+    return peekedMessageItems.map(item => ({
+        messageId: item.messageId,
+        insertedOn: item.insertedOn,
+        dequeueCount: item.dequeueCount,
+        summary: summarizeMessage(item.messageText),
+    }));
+}
+
+/**
+ * Moves every poison message back to the revalidation queue, returns the number of messages moved.
+ * A message is deleted from the poison queue only after it was sent to the revalidation queue.
+ */
+export async function requeuePoisonMessages(connectionString: string, queueName: string): Promise<number> {
+    const queueClient = getQueueClient(connectionString, queueName);
+    const poisonClient = getQueueClient(connectionString, getPoisonQueueName(queueName));
+
+    if (!(await poisonClient.exists())) {
+        return 0;
+    }
+
+    let requeued = 0;
+    for (;;) {
+        const { receivedMessageItems } = await poisonClient.receiveMessages({
+            numberOfMessages: MAX_MESSAGES_PER_CALL,
+            visibilityTimeout: REQUEUE_VISIBILITY_TIMEOUT_SECONDS,
+        });
+        if (receivedMessageItems.length === 0) {
+            return requeued;
+        }
+
+        for (const item of receivedMessageItems) {
+            // The text is kept as is, it is already encoded the way the revalidation function expects
+            await queueClient.sendMessage(item.messageText);
+            await poisonClient.deleteMessage(item.messageId, item.popReceipt);
+            requeued++;
+        }
+    }
+}
+
+/**
+ * Deletes every poison message, returns the approximate number of messages deleted.
+ */
+export async function purgePoisonMessages(connectionString: string, queueName: string): Promise<number> {
+    const poisonClient = getQueueClient(connectionString, getPoisonQueueName(queueName));
+
+    if (!(await poisonClient.exists())) {
+        return 0;
+    }
+
+    const properties = await poisonClient.getProperties();
+    await poisonClient.clearMessages();
+    return properties.approximateMessagesCount ?? 0;
+}
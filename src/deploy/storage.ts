@@ -0,0 +1,108 @@
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+
+import { getAzureConfig } from "../config/index.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * Looks up the storage account provisioned by main.bicep in the resource group.
+ */
+export async function getStorageAccountName(resourceGroup: string): Promise<string> {
+    const { stdout } = await execAsync(
+        `az storage account list --resource-group ${resourceGroup} --query "[0].name" -o tsv`
+    );
+    const storageAccountName = stdout.trim();
+
+    if (!storageAccountName) {
+        throw new Error(`No storage account found in resource group "${resourceGroup}"`);
+    }
+
+    return storageAccountName;
+}
+
+/**
+ * Reads an app setting of the Function App provisioned by main.bicep in the resource group,
+ * undefined when it isn't set.
+ */
+export async function getFunctionAppSetting(resourceGroup: string, name: string): Promise<string | undefined> {
+    const { stdout: functionAppName } = await execAsync(
+        `az functionapp list --resource-group ${resourceGroup} --query "[0].name" -o tsv`
+    );
+    if (!functionAppName.trim()) {
+        return undefined;
+    }
+
+    const { stdout } = await execAsync(
+        `az functionapp config appsettings list --resource-group ${resourceGroup} --name ${functionAppName.trim()} --query "[?name=='${name}'].value | [0]" -o tsv`
+    );
+    return stdout.trim() || undefined;
+}
+
+/**
+ * Name of the revalidation Storage queue (AZURE_QUEUE_NAME, namespaced per key prefix by main.bicep).
+ */
+export async function getRevalidationQueueName(resourceGroup: string): Promise<string> {
+    return (await getFunctionAppSetting(resourceGroup, "AZURE_QUEUE_NAME")) || getAzureConfig().storage.queueName;
+}
+
+/**
+ * Namespace and queue of the Service Bus revalidation queue (AZURE_SERVICE_BUS_NAMESPACE and
+ * AZURE_SERVICE_BUS_QUEUE), undefined when the Function App isn't triggered from Service Bus.
+ */
+export async function getServiceBusQueue(
+    resourceGroup: string
+): Promise<{ namespace: string; queueName: string } | undefined> {
+    const namespace = await getFunctionAppSetting(resourceGroup, "AZURE_SERVICE_BUS_NAMESPACE");
+    if (!namespace) {
+        return undefined;
+    }
+
+    return {
+        // The setting holds the fully qualified namespace
+        namespace: namespace.replace(/\.servicebus\.windows\.net$/, ""),
+        queueName:
+            (await getFunctionAppSetting(resourceGroup, "AZURE_SERVICE_BUS_QUEUE")) ||
+            getAzureConfig().serviceBus.queueName,
+    };
+}
+
+/**
+ * Gets a connection string for the storage account using the logged-in Azure CLI session.
+ * Used by CLI commands that talk to Table/Blob Storage through the SDKs.
+ */
+export async function getStorageConnectionString(resourceGroup: string, storageAccountName?: string): Promise<string> {
+    const accountName = storageAccountName || (await getStorageAccountName(resourceGroup));
+    const { stdout } = await execAsync(
+        `az storage account show-connection-string --resource-group ${resourceGroup} --name ${accountName} --query connectionString -o tsv`
+    );
+    return stdout.trim();
+}
+
+/**
+ * Gets the endpoint and primary key of the Cosmos DB account provisioned by main.bicep.
+ */
+export async function getCosmosAccountKeys(
+    resourceGroup: string,
+    cosmosAccountName?: string
+): Promise<{ endpoint: string; key: string }> {
+    let accountName = cosmosAccountName;
+    if (!accountName) {
+        const { stdout } = await execAsync(
+            `az cosmosdb list --resource-group ${resourceGroup} --query "[0].name" -o tsv`
+        );
+        accountName = stdout.trim();
+    }
+
+    if (!accountName) {
+        throw new Error(`No Cosmos DB account found in resource group "${resourceGroup}"`);
+    }
+
+    const { stdout: endpoint } = await execAsync(
+        `az cosmosdb show --resource-group ${resourceGroup} --name ${accountName} --query documentEndpoint -o tsv`
+    );
+    const { stdout: key } = await execAsync(
+        `az cosmosdb keys list --resource-group ${resourceGroup} --name ${accountName} --query primaryMasterKey -o tsv`
+    );
+    return { endpoint: endpoint.trim(), key: key.trim() };
+}
@@ -5,7 +5,13 @@ export { deploy } from "./cli/deploy.js";
 
 // Export Azure-specific overrides
 export { default as azureBlobCache } from "./overrides/incrementalCache/azure-blob.js";
+export { default as azureRedisCache } from "./overrides/incrementalCache/azure-redis.js";
+export { withMemoryCache } from "./overrides/incrementalCache/memory-lru.js";
+export { default as azureBlobComposableCache, withComposableCache } from "./overrides/composableCache/azure-blob.js";
 export { default as azureTableTagCache } from "./overrides/tagCache/azure-table.js";
+export { default as azureTableNextModeTagCache } from "./overrides/tagCache/azure-table-nextmode.js";
+export { default as azureRedisTagCache } from "./overrides/tagCache/azure-redis.js";
+export { default as azureCosmosTagCache } from "./overrides/tagCache/azure-cosmos.js";
 export { default as azureQueueRevalidation } from "./overrides/queue/azure-queue.js";
 
 // Export wrappers and converters
@@ -13,4 +19,15 @@ export { default as azureFunctionsWrapper } from "./adapters/wrappers/azure-func
 export { default as azureHttpConverter } from "./adapters/converters/azure-http.js";
 
 // Export types
-export type { AzureConfig, AzureDeploymentTarget } from "./types/index.js";
+export type {
+    AzureConfig,
+    AzureDeploymentTarget,
+    CacheWriteResult,
+    DirectQueueOptions,
+    FunctionsModel,
+    MemoryCacheOptions,
+    ReportingIncrementalCache,
+    ResiliencePolicy,
+    StaticAssetsMode,
+    StaticAssetsOptions,
+} from "./types/index.js";
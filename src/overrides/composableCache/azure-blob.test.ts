@@ -0,0 +1,36 @@
+import type { IncrementalCache } from "@opennextjs/aws/types/overrides.js";
+import { describe, expect, it, vi } from "vitest";
+import { withComposableCache } from "./azure-blob.js";
+
+function fakeCache(name: string): IncrementalCache {
+    return {
+        name,
+        get: vi.fn(async () => null),
+        set: vi.fn(async () => undefined),
+        delete: vi.fn(async () => undefined),
+    };
+}
+
+describe("withComposableCache", () => {
+    it("routes composable entries to the composable cache", async () => {
+        const cache = fakeCache("incremental");
+        const composableCache = fakeCache("composable");
+        const combined = withComposableCache(cache, composableCache);
+
+        await combined.set("/page", {} as any, "cache");
+        await combined.set("key", {} as any, "composable");
+
+        expect(cache.set).toHaveBeenCalledWith("/page", {}, "cache");
+        expect(composableCache.set).toHaveBeenCalledWith("key", {}, "composable");
+    });
+
+    it("deletes the key from both caches", async () => {
+        const cache = fakeCache("incremental");
+        const composableCache = fakeCache("composable");
+
+        await withComposableCache(cache, composableCache).delete("key");
+
+        expect(cache.delete).toHaveBeenCalledWith("key");
+        expect(composableCache.delete).toHaveBeenCalledWith("key");
+    });
+});
@@ -0,0 +1,199 @@
+import type { ContainerClient } from "@azure/storage-blob";
+import type {
+    CacheEntryType,
+    CacheValue,
+    IncrementalCache,
+    WithLastModified,
+} from "@opennextjs/aws/types/overrides.js";
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { getAzureConfig } from "../../config/index.js";
+import { createBlobServiceClient } from "../../config/credentials.js";
+import { StorageNotConfiguredError, logStorageError, untilFirstByte, withResilience } from "../../config/resilience.js";
+import type { CacheCompression, ReportingIncrementalCache } from "../../types/index.js";
+import { compressEntry, decompressEntry } from "../incrementalCache/compression.js";
+import { writeEntry } from "../incrementalCache/memory-lru.js";
+
+export interface AzureBlobComposableCacheOptions {
+    /** Compression of written entries (default: "gzip"), as for the incremental cache */
+    compression?: CacheCompression;
+}
+
+/**
+ * Blob name of a composable cache entry, also used by AzureBlobIncrementalCache to delete it.
+ */
+export function buildComposableBlobKey(key: string): string {
+    const { storage } = getAzureConfig();
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.posix.join(
+        storage.keyPrefix || storage.containerName || "",
+        "__composable",
+        process.env.NEXT_BUILD_ID ?? "",
+        `${hash}.composable`
+    );
+}
+
+/**
+ * Azure Blob Storage cache for "use cache" (composable cache) entries.
+ *
+ * OpenNext's composable cache handler reads and writes entries through the incremental cache
+ * with the "composable" cache type, and checks their tags against the tag cache:
+ * - original mode: the tag/key pairs are written to the tag table on set, invalidated by revalidateTag()
+ * - next mode: the entry tags and Next.js soft tags (implicit path tags) are checked with getLastRevalidated
+ *
+ * Keys are derived from the function ID and its serialized arguments and can be longer than a blob
+ * name allows, so blobs are named after their SHA-256 hash:
+ * [prefix]/__composable/[buildId]/[sha256(key)].composable (prefix as in AzureBlobIncrementalCache)
+ * Tags are part of the stored entry (blob metadata is limited to 8 KB), the expiry is also written as
+ * metadata so entries can be inspected without downloading them. Entries are compressed like
+ * incremental cache entries.
+ */
+class AzureBlobComposableCache implements IncrementalCache {
+    name = "azure-blob-composable";
+    private containerClient?: ContainerClient;
+    private compression: CacheCompression;
+
+    constructor(options: AzureBlobComposableCacheOptions = {}) {
+        this.compression = options.compression ?? "gzip";
+
+        const { storage } = getAzureConfig();
+        const blobServiceClient = createBlobServiceClient();
+
+        if (blobServiceClient) {
+            this.containerClient = blobServiceClient.getContainerClient(storage.containerName || "nextjs-cache");
+        }
+    }
+
+    private getContainerClient(): ContainerClient {
+        if (!this.containerClient) {
+            throw new StorageNotConfiguredError("Azure Blob Storage");
+        }
+        return this.containerClient;
+    }
+
+    private buildBlobKey(key: string): string {
+        return buildComposableBlobKey(key);
+    }
+
+    async get<CacheType extends CacheEntryType = "composable">(
+        key: string
+    ): Promise<WithLastModified<CacheValue<CacheType>> | null> {
+        try {
+            const blobClient = this.getContainerClient().getBlobClient(this.buildBlobKey(key));
+            const { downloadResponse, body } = await withResilience("blob", async abortSignal => {
+                const downloadResponse = await untilFirstByte(abortSignal, signal =>
+                    blobClient.download(0, undefined, { abortSignal: signal })
+                );
+                if (!downloadResponse.readableStreamBody) {
+                    return { downloadResponse, body: undefined };
+                }
+
+                const chunks: Buffer[] = [];
+                for await (const chunk of downloadResponse.readableStreamBody) {
+                    chunks.push(Buffer.from(chunk));
+                }
+                return { downloadResponse, body: Buffer.concat(chunks) };
+            });
+
+            if (!body) {
+                return null;
+            }
+
+            const content = await decompressEntry(body, downloadResponse.contentEncoding);
+            const value = JSON.parse(content) as CacheValue<"composable">;
+
+            // expire is in seconds from the time the entry was created
+            if (value.expire !== undefined && value.timestamp + value.expire * 1000 < Date.now()) {
+                return null;
+            }
+
+            return {
+                value: value as unknown as CacheValue<CacheType>,
+                lastModified: downloadResponse.lastModified?.getTime() ?? value.timestamp,
+            };
+        } catch (error: any) {
+            if (error.statusCode === 404) {
+                return null;
+            }
+            logStorageError("Failed to get from Azure Blob composable cache", error);
+            return null;
+        }
+    }
+
+    async set<CacheType extends CacheEntryType = "composable">(
+        key: string,
+        value: CacheValue<CacheType>
+    ): Promise<void> {
+        try {
+            const entry = value as CacheValue<"composable">;
+            const blobClient = this.getContainerClient().getBlockBlobClient(this.buildBlobKey(key));
+            const content = await compressEntry(JSON.stringify(entry), this.compression);
+
+            await withResilience("blob", abortSignal =>
+                blobClient.upload(content, content.length, {
+                    abortSignal,
+                    blobHTTPHeaders: {
+                        blobContentType: "application/json",
+                        blobContentEncoding: this.compression === "none" ? undefined : this.compression,
+                    },
+                    metadata: {
+                        expire: String(entry.expire),
+                    },
+                })
+            );
+        } catch (error) {
+            logStorageError("Failed to set Azure Blob composable cache", error);
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            const blobClient = this.getContainerClient().getBlobClient(this.buildBlobKey(key));
+            await withResilience("blob", abortSignal => blobClient.deleteIfExists({ abortSignal }));
+        } catch (error) {
+            logStorageError("Failed to delete from Azure Blob composable cache", error);
+        }
+    }
+}
+
+/**
+ * Routes "composable" entries to a dedicated cache and everything else to the incremental cache.
+ * delete removes the key from both.
+ */
+export function withComposableCache(
+    cache: IncrementalCache,
+    composableCache: IncrementalCache
+): ReportingIncrementalCache {
+    return {
+        name: `${cache.name}+${composableCache.name}`,
+
+        get<CacheType extends CacheEntryType = "cache">(key: string, cacheType?: CacheType) {
+            return cacheType === "composable" ? composableCache.get(key, cacheType) : cache.get(key, cacheType);
+        },
+
+        set<CacheType extends CacheEntryType = "cache">(
+            key: string,
+            value: CacheValue<CacheType>,
+            cacheType?: CacheType
+        ) {
+            return cacheType === "composable"
+                ? composableCache.set(key, value, cacheType)
+                : cache.set(key, value, cacheType);
+        },
+
+        write<CacheType extends CacheEntryType = "cache">(
+            key: string,
+            value: CacheValue<CacheType>,
+            cacheType?: CacheType
+        ) {
+            return writeEntry(cacheType === "composable" ? composableCache : cache, key, value, cacheType);
+        },
+
+        async delete(key: string) {
+            await Promise.all([cache.delete(key), composableCache.delete(key)]);
+        },
+    };
+}
+
+export default AzureBlobComposableCache;
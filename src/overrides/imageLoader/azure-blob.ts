@@ -1,5 +1,7 @@
 import { Readable } from "node:stream";
 import type { ImageLoader } from "@opennextjs/aws/types/overrides.js";
+import { createBlobServiceClient } from "../../config/credentials.js";
+import { untilFirstByte, withResilience } from "../../config/resilience.js";
 
 /**
  * Azure Blob Storage Image Loader
@@ -9,48 +11,51 @@ import type { ImageLoader } from "@opennextjs/aws/types/overrides.js";
  *
  * Flow:
  * 1. User requests: /_next/image?url=/photo.jpg&w=640&q=75
- * 2. This loader fetches the original /photo.jpg from "assets" container (public blob)
+ * 2. This loader downloads the original /photo.jpg from the "assets" container
  * 3. Image is passed to Next.js optimizer (sharp) for processing
  * 4. Result is cached in "optimized-images" container (if caching enabled)
  */
 
-const { AZURE_STORAGE_ACCOUNT_NAME } = process.env;
+const ASSETS_CONTAINER = "assets";
 
 const azureBlobImageLoader: ImageLoader = {
     name: "azure-blob",
     load: async (key: string) => {
-        if (!AZURE_STORAGE_ACCOUNT_NAME) {
-            throw new Error("AZURE_STORAGE_ACCOUNT_NAME must be defined");
+        const blobServiceClient = createBlobServiceClient();
+        if (!blobServiceClient) {
+            throw new Error("Azure Storage connection string or account name must be defined");
         }
 
         const cleanKey = key.replace(/^\//, "");
-        const blobUrl = `https://${AZURE_STORAGE_ACCOUNT_NAME}.blob.core.windows.net/assets/${cleanKey}`;
+        const blobClient = blobServiceClient.getContainerClient(ASSETS_CONTAINER).getBlobClient(cleanKey);
 
         try {
-            const response = await fetch(blobUrl);
+            const { downloadResponse, buffer } = await withResilience("blob", async abortSignal => {
+                const downloadResponse = await untilFirstByte(abortSignal, signal =>
+                    blobClient.download(0, undefined, { abortSignal: signal })
+                );
 
-            if (response.status === 404) {
-                throw new Error(`Image not found in blob storage: ${cleanKey}`);
-            }
-
-            if (!response.ok) {
-                throw new Error(`Failed to fetch image. Status: ${response.status}`);
-            }
+                if (!downloadResponse.readableStreamBody) {
+                    throw new Error("No body in download response");
+                }
 
-            if (!response.body) {
-                throw new Error("No body in fetch response");
-            }
-
-            const arrayBuffer = await response.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
+                const chunks: Buffer[] = [];
+                for await (const chunk of downloadResponse.readableStreamBody) {
+                    chunks.push(Buffer.from(chunk));
+                }
+                return { downloadResponse, buffer: Buffer.concat(chunks) };
+            });
             const body = Readable.from(buffer);
 
             return {
                 body,
-                contentType: response.headers.get("content-type") ?? undefined,
-                cacheControl: response.headers.get("cache-control") ?? undefined,
+                contentType: downloadResponse.contentType ?? undefined,
+                cacheControl: downloadResponse.cacheControl ?? undefined,
             };
         } catch (error: any) {
+            if (error.statusCode === 404) {
+                throw new Error(`Image not found in blob storage: ${cleanKey}`);
+            }
             throw new Error(`Failed to load image from Azure Blob: ${error.message}`);
         }
     },
@@ -1,9 +1,12 @@
 import { createHash } from "node:crypto";
-import { BlobServiceClient, BlockBlobClient } from "@azure/storage-blob";
+import type { BlockBlobClient } from "@azure/storage-blob";
 import type { InternalEvent, InternalResult } from "@opennextjs/aws/types/open-next.js";
 import type { OpenNextHandler, OpenNextHandlerOptions } from "@opennextjs/aws/types/overrides.js";
 import { Readable } from "node:stream";
 import { ReadableStream } from "node:stream/web";
+import { createBlobServiceClient } from "../../config/credentials.js";
+import { untilFirstByte, withResilience } from "../../config/resilience.js";
+import { getBuildId, namespaceKey } from "../../config/index.js";
 
 /**
  * Azure Blob Image Optimization Cache
@@ -26,22 +29,19 @@ import { ReadableStream } from "node:stream/web";
  *
  * Cache Key Format: {sha256(url).substring(0,16)}/w{width}_q{quality}.cache
  * Example: a1b2c3d4e5f6g7h8/w640_q75.cache
+ * Prefixed with "{keyPrefix}/" when storage.keyPrefix is set
  */
 
-const { AZURE_STORAGE_CONNECTION_STRING, AZURE_STORAGE_ACCOUNT_NAME } = process.env;
 const CACHE_CONTAINER = "optimized-images";
 
 function getBlobClient(key: string): BlockBlobClient {
-    if (!AZURE_STORAGE_CONNECTION_STRING && !AZURE_STORAGE_ACCOUNT_NAME) {
+    const blobServiceClient = createBlobServiceClient();
+    if (!blobServiceClient) {
         throw new Error("Azure Storage connection string or account name must be defined");
     }
 
-    const blobServiceClient = AZURE_STORAGE_CONNECTION_STRING
-        ? BlobServiceClient.fromConnectionString(AZURE_STORAGE_CONNECTION_STRING)
-        : new BlobServiceClient(`https://${AZURE_STORAGE_ACCOUNT_NAME}.blob.core.windows.net`);
-
     const containerClient = blobServiceClient.getContainerClient(CACHE_CONTAINER);
-    return containerClient.getBlockBlobClient(key);
+    return containerClient.getBlockBlobClient(namespaceKey(key));
 }
 
 function computeCacheKey(event: InternalEvent): string {
@@ -58,25 +58,27 @@ function computeCacheKey(event: InternalEvent): string {
 async function getCachedImage(cacheKey: string): Promise<InternalResult | null> {
     try {
         const blobClient = getBlobClient(cacheKey);
-        const exists = await blobClient.exists();
-
-        if (!exists) {
-            return null;
-        }
+        // A missing image fails the download with 404, which is not retried
+        const { properties, buffer } = await withResilience("blob", async abortSignal => {
+            const downloadResponse = await untilFirstByte(abortSignal, signal =>
+                blobClient.download(0, undefined, { abortSignal: signal })
+            );
+
+            if (!downloadResponse.readableStreamBody) {
+                return { properties: downloadResponse, buffer: undefined };
+            }
 
-        const downloadResponse = await blobClient.download();
-        const properties = await blobClient.getProperties();
+            const chunks: Buffer[] = [];
+            for await (const chunk of downloadResponse.readableStreamBody) {
+                chunks.push(Buffer.from(chunk));
+            }
+            return { properties: downloadResponse, buffer: Buffer.concat(chunks) };
+        });
 
-        if (!downloadResponse.readableStreamBody) {
+        if (!buffer) {
             return null;
         }
 
-        const chunks: Buffer[] = [];
-        for await (const chunk of downloadResponse.readableStreamBody) {
-            chunks.push(Buffer.from(chunk));
-        }
-        const buffer = Buffer.concat(chunks);
-
         return {
             type: "core",
             statusCode: 200,
@@ -118,12 +120,18 @@ async function setCachedImage(cacheKey: string, result: InternalResult): Promise
             ? cacheControlRaw[0]
             : cacheControlRaw || "public,max-age=31536000,immutable";
 
-        await blobClient.upload(buffer, buffer.length, {
-            blobHTTPHeaders: {
-                blobContentType: contentType,
-                blobCacheControl: cacheControl,
-            },
-        });
+        const buildId = getBuildId();
+        await withResilience("blob", abortSignal =>
+            blobClient.upload(buffer, buffer.length, {
+                abortSignal,
+                blobHTTPHeaders: {
+                    blobContentType: contentType,
+                    blobCacheControl: cacheControl,
+                },
+                // Lets `cache prune` remove images cached by old builds
+                metadata: buildId ? { buildid: buildId } : undefined,
+            })
+        );
     } catch (error) {
         console.error("Failed to cache optimized image:", error);
     }
@@ -0,0 +1,197 @@
+import { Readable } from "node:stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import AzureBlobIncrementalCache from "./azure-blob.js";
+import { withMemoryCache } from "./memory-lru.js";
+
+interface StoredBlob {
+    content: Buffer;
+    etag: string;
+    lastModified: Date;
+}
+
+// In-memory stand-in for the container, honouring the conditions the SDK sends
+const blobs = new Map<string, StoredBlob>();
+const uploads: { blobKey: string; conditions?: Record<string, string> }[] = [];
+let version = 0;
+// Error the next upload fails with, e.g. a 409 while the blob is leased
+let uploadError: Error | undefined;
+
+function condition(statusCode: number): Error {
+    return Object.assign(new Error("ConditionNotMet"), { statusCode });
+}
+
+function write(blobKey: string, content: Buffer): StoredBlob {
+    const blob = { content, etag: `"${++version}"`, lastModified: new Date(1_700_000_000_000 + version * 1000) };
+    blobs.set(blobKey, blob);
+    return blob;
+}
+
+vi.mock("../../config/credentials.js", () => ({
+    createBlobServiceClient: () => ({
+        getContainerClient: () => ({
+            getBlobClient: (blobKey: string) => ({
+                name: blobKey,
+                download: async (_offset: number, _count: undefined, options: any) => {
+                    const blob = blobs.get(blobKey);
+                    if (!blob) {
+                        throw condition(404);
+                    }
+                    if (options?.conditions?.ifNoneMatch === blob.etag) {
+                        throw condition(304);
+                    }
+                    return {
+                        _response: { status: 200 },
+                        readableStreamBody: Readable.from([blob.content]),
+                        etag: blob.etag,
+                        lastModified: blob.lastModified,
+                    };
+                },
+            }),
+            listBlobsFlat: async function* ({ prefix }: { prefix: string }) {
+                for (const name of blobs.keys()) {
+                    if (name.startsWith(prefix)) {
+                        yield { name };
+                    }
+                }
+            },
+            getBlobBatchClient: () => ({
+                deleteBlobs: async (clients: { name: string }[]) => ({
+                    subResponsesSucceededCount: clients.filter(client => blobs.delete(client.name)).length,
+                }),
+            }),
+            getBlockBlobClient: (blobKey: string) => ({
+                upload: async (content: Buffer, _length: number, options: any) => {
+                    const conditions = options?.conditions;
+                    uploads.push({ blobKey, conditions });
+                    if (uploadError) {
+                        throw uploadError;
+                    }
+                    const blob = blobs.get(blobKey);
+                    if (conditions?.ifMatch && conditions.ifMatch !== blob?.etag) {
+                        throw condition(412);
+                    }
+                    const written = write(blobKey, content);
+                    return { etag: written.etag, lastModified: written.lastModified };
+                },
+            }),
+        }),
+    }),
+}));
+
+const entry = (html: string) => ({ type: "app", html, rsc: "", meta: { status: 200 }, revalidate: 60 }) as any;
+const blobKey = "nextjs-cache/build-1/index.cache";
+
+describe("AzureBlobIncrementalCache", () => {
+    beforeEach(() => {
+        blobs.clear();
+        uploads.length = 0;
+        uploadError = undefined;
+        version = 0;
+        process.env.NEXT_BUILD_ID = "build-1";
+        delete process.env.AZURE_STORAGE_KEY_PREFIX;
+        delete process.env.AZURE_STORAGE_CONTAINER_NAME;
+    });
+
+    it("overwrites an entry it doesn't know, such as a prerender uploaded at deploy", async () => {
+        write(blobKey, Buffer.from(JSON.stringify(entry("deployed"))));
+        const cache = new AzureBlobIncrementalCache({ compression: "none" });
+
+        await cache.set("/index", entry("rendered"));
+
+        expect(uploads).toEqual([{ blobKey, conditions: undefined }]);
+        expect((await cache.get("/index"))?.value).toMatchObject({ html: "rendered" });
+    });
+
+    it("writes with If-Match once it has read the entry", async () => {
+        write(blobKey, Buffer.from(JSON.stringify(entry("deployed"))));
+        const cache = new AzureBlobIncrementalCache({ compression: "none" });
+
+        await cache.get("/index");
+        await cache.set("/index", entry("rendered"));
+
+        expect(uploads).toEqual([{ blobKey, conditions: { ifMatch: '"1"' } }]);
+    });
+
+    it("skips a write that lost to another instance and reads its value again", async () => {
+        write(blobKey, Buffer.from(JSON.stringify(entry("first"))));
+        const cache = new AzureBlobIncrementalCache({ compression: "none" });
+        const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+        await cache.get("/index");
+        // Another instance updates the entry while this one renders
+        write(blobKey, Buffer.from(JSON.stringify(entry("other instance"))));
+        await cache.set("/index", entry("stale"));
+
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining("lost to a concurrent update"));
+        stderr.mockRestore();
+        expect((await cache.get("/index"))?.value).toMatchObject({ html: "other instance" });
+        // The value read again is the one the next write must not overwrite
+        await cache.set("/index", entry("next"));
+        expect(uploads.at(-1)?.conditions).toEqual({ ifMatch: '"2"' });
+    });
+
+    it("rethrows other upload errors, 409 included", async () => {
+        const cache = new AzureBlobIncrementalCache({ compression: "none" });
+        uploadError = Object.assign(new Error("LeaseIdMissing"), { statusCode: 409 });
+        const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+        await expect(cache.set("/index", entry("rendered"))).rejects.toThrow("LeaseIdMissing");
+
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining("Failed to set Azure Blob cache"));
+        stderr.mockRestore();
+    });
+
+    describe("behind the memory layer", () => {
+        it("keeps a written value with the blob's Last-Modified", async () => {
+            const cache = withMemoryCache(new AzureBlobIncrementalCache({ compression: "none" }));
+
+            await cache.set("/index", entry("rendered"));
+            // Served from memory: the blob changes without the memory layer noticing
+            write(blobKey, Buffer.from(JSON.stringify(entry("other instance"))));
+
+            expect(await cache.get("/index")).toEqual({
+                value: entry("rendered"),
+                lastModified: 1_700_000_001_000,
+            });
+        });
+
+        it("drops a value whose write lost to another instance", async () => {
+            write(blobKey, Buffer.from(JSON.stringify(entry("first"))));
+            const cache = withMemoryCache(new AzureBlobIncrementalCache({ compression: "none" }));
+            const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+            await cache.get("/index");
+            write(blobKey, Buffer.from(JSON.stringify(entry("other instance"))));
+            const result = await cache.write("/index", entry("stale"));
+
+            stderr.mockRestore();
+            expect(result).toEqual({ written: false });
+            expect((await cache.get("/index"))?.value).toMatchObject({ html: "other instance" });
+        });
+    });
+
+    describe("deleteByPrefix", () => {
+        const names = [
+            "nextjs-cache/build-1/blog.cache",
+            "nextjs-cache/build-1/blog/post.cache",
+            "nextjs-cache/build-1/blogger.cache",
+            "nextjs-cache/build-2/blog/post.cache",
+        ];
+
+        beforeEach(() => {
+            names.forEach(name => write(name, Buffer.from("{}")));
+        });
+
+        it("deletes the prefix itself and what is under it, not siblings sharing its characters", async () => {
+            const deleted = await new AzureBlobIncrementalCache().deleteByPrefix("/blog");
+
+            expect(deleted).toBe(2);
+            expect([...blobs.keys()]).toEqual([names[2], names[3]]);
+        });
+
+        it("only deletes what is under a prefix ending with a slash", async () => {
+            expect(await new AzureBlobIncrementalCache().deleteByPrefix("/blog/")).toBe(1);
+            expect(blobs.has(names[0])).toBe(true);
+        });
+    });
+});
@@ -1,85 +1,172 @@
-import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
-import type {
-    CacheEntryType,
-    CacheValue,
-    IncrementalCache,
-    WithLastModified,
-} from "@opennextjs/aws/types/overrides.js";
+import type { ContainerClient } from "@azure/storage-blob";
+import type { CacheEntryType, CacheValue, WithLastModified } from "@opennextjs/aws/types/overrides.js";
+import path from "node:path";
 import { getAzureConfig } from "../../config/index.js";
+import { createBlobServiceClient } from "../../config/credentials.js";
+import { StorageNotConfiguredError, logStorageError, untilFirstByte, withResilience } from "../../config/resilience.js";
+import type { CacheCompression, CacheWriteResult, ReportingIncrementalCache } from "../../types/index.js";
+import { buildComposableBlobKey } from "../composableCache/azure-blob.js";
+import { compressEntry, decompressEntry } from "./compression.js";
+import { MemoryLRU } from "./memory-lru.js";
+
+// Every type an entry can be stored as, delete removes all of them
+const CACHE_ENTRY_TYPES: CacheEntryType[] = ["cache", "fetch", "composable"];
+// Blob batch requests accept at most 256 sub-requests
+const MAX_BLOB_BATCH_SIZE = 256;
+
+// Number of entries whose ETag is remembered per instance
+const MAX_TRACKED_ENTRIES = 10_000;
+// Size of the values kept to answer 304 responses, per instance
+const MAX_TRACKED_BYTES = 16 * 1024 * 1024;
+
+export interface AzureBlobIncrementalCacheOptions {
+    /** Compression of written entries (default: "gzip"). Entries are read regardless of their encoding. */
+    compression?: CacheCompression;
+}
+
+interface TrackedEntry {
+    etag: string;
+    lastModified?: number;
+}
 
 /**
  * Azure Blob Storage implementation of IncrementalCache.
  *
  * Stores Next.js ISR cache entries in Azure Blob Storage.
  * Compatible with the S3 cache interface from @opennextjs/aws.
+ *
+ * ETags of entries read or written by this instance are remembered:
+ * - get sends If-None-Match and reuses the known value when the blob is unchanged (304). Values are
+ *   kept in a byte-bounded LRU (MAX_TRACKED_BYTES), entries whose value was evicted are downloaded again
+ * - set sends If-Match for an entry this instance has read or written, so a value written by another
+ *   instance since then is not overwritten with an older render (skipped and logged). Entries this
+ *   instance doesn't know (never read, or forgotten by the LRU) are written unconditionally, like before
+ *   ETags were tracked: a failed condition there would drop a fresh render, e.g. of a prerendered page
+ *
+ * write reports skipped writes and the blob's Last-Modified, so withMemoryCache doesn't keep a value
+ * that lost the race and dates the ones it keeps like storage does.
+ *
+ * Entries are compressed with gzip or brotli and marked with Content-Encoding. Blobs without
+ * Content-Encoding (written by earlier versions or uploaded at deploy) are read as plain JSON.
  */
-class AzureBlobIncrementalCache implements IncrementalCache {
+class AzureBlobIncrementalCache implements ReportingIncrementalCache {
     name = "azure-blob";
-    private containerClient!: ContainerClient;
+    private containerClient?: ContainerClient;
+    private entries = new Map<string, TrackedEntry>();
+    private values = new MemoryLRU({ maxBytes: MAX_TRACKED_BYTES, ttl: Infinity });
+    private compression: CacheCompression;
+
+    constructor(options: AzureBlobIncrementalCacheOptions = {}) {
+        this.compression = options.compression ?? "gzip";
 
-    constructor() {
         const { storage } = getAzureConfig();
-        const connectionString = storage.connectionString;
-        const accountName = storage.accountName;
-        const accountKey = storage.accountKey;
+        const blobServiceClient = createBlobServiceClient();
 
-        if (connectionString) {
-            const blobServiceClient = BlobServiceClient.fromConnectionString(connectionString);
-            this.containerClient = blobServiceClient.getContainerClient(storage.containerName || "nextjs-cache");
-        } else if (accountName && accountKey) {
-            const blobServiceClient = new BlobServiceClient(`https://${accountName}.blob.core.windows.net`, {
-                accountName,
-                accountKey,
-            } as any);
+        if (blobServiceClient) {
             this.containerClient = blobServiceClient.getContainerClient(storage.containerName || "nextjs-cache");
         }
     }
 
+    private getContainerClient(): ContainerClient {
+        if (!this.containerClient) {
+            throw new StorageNotConfiguredError("Azure Blob Storage");
+        }
+        return this.containerClient;
+    }
+
     /**
      * Builds the blob key path, mimicking S3 structure:
      * [prefix]/[__fetch]/[buildId]/[key].[extension]
+     * where prefix is storage.keyPrefix, or the container name when no key prefix is set
      */
     private buildBlobKey(key: string, cacheType: CacheEntryType = "cache"): string {
         const { storage } = getAzureConfig();
         const { NEXT_BUILD_ID } = process.env;
-        const prefix = storage.containerName || "";
+        // The key prefix namespaces apps sharing a storage account, the container name is the default
+        const prefix = storage.keyPrefix || storage.containerName || "";
         const type = cacheType === "fetch" ? "__fetch" : "";
-        return [prefix, type, NEXT_BUILD_ID, cacheType === "fetch" ? key : `${key}.${cacheType}`]
-            .filter(Boolean)
-            .join("/");
+        // Keys start with "/" (e.g. "/index"), path.posix.join collapses the separators like the S3 cache
+        return path.posix.join(prefix, type, NEXT_BUILD_ID ?? "", cacheType === "fetch" ? key : `${key}.${cacheType}`);
+    }
+
+    private track(blobKey: string, entry: TrackedEntry, value: unknown): void {
+        this.entries.delete(blobKey);
+        this.entries.set(blobKey, entry);
+        this.values.set(blobKey, { value, lastModified: entry.lastModified });
+        if (this.entries.size > MAX_TRACKED_ENTRIES) {
+            // Map keeps insertion order, the first key is the oldest
+            this.untrack(this.entries.keys().next().value!);
+        }
+    }
+
+    private untrack(blobKey: string): void {
+        this.entries.delete(blobKey);
+        this.values.delete(blobKey);
     }
 
     async get<CacheType extends CacheEntryType = "cache">(
         key: string,
         cacheType?: CacheType
     ): Promise<WithLastModified<CacheValue<CacheType>> | null> {
+        const blobKey = this.buildBlobKey(key, cacheType);
+        // A 304 can only be answered while the value is still in memory
+        const known = this.entries.has(blobKey) ? this.values.get(blobKey) : undefined;
+        const tracked = known && this.entries.get(blobKey);
+
         try {
-            const blobKey = this.buildBlobKey(key, cacheType);
-            const blobClient = this.containerClient.getBlobClient(blobKey);
-            const downloadResponse = await blobClient.download();
+            const containerClient = this.getContainerClient();
+            const blobClient = containerClient.getBlobClient(blobKey);
+            // Reading the body is part of the operation (a failed read is retried), the timeout only
+            // covers the time to first byte
+            const { downloadResponse, body } = await withResilience("blob", async abortSignal => {
+                const downloadResponse = await untilFirstByte(abortSignal, signal =>
+                    blobClient.download(0, undefined, {
+                        abortSignal: signal,
+                        conditions: tracked ? { ifNoneMatch: tracked.etag } : undefined,
+                    })
+                );
 
-            if (!downloadResponse.readableStreamBody) {
-                return null;
+                if (downloadResponse._response.status === 304 || !downloadResponse.readableStreamBody) {
+                    return { downloadResponse, body: undefined };
+                }
+
+                // Read blob content
+                const chunks: Buffer[] = [];
+                for await (const chunk of downloadResponse.readableStreamBody) {
+                    chunks.push(Buffer.from(chunk));
+                }
+                return { downloadResponse, body: Buffer.concat(chunks) };
+            });
+
+            if (downloadResponse._response.status === 304 && known) {
+                return known as WithLastModified<CacheValue<CacheType>>;
             }
 
-            // Read blob content
-            const chunks: Buffer[] = [];
-            for await (const chunk of downloadResponse.readableStreamBody) {
-                chunks.push(Buffer.from(chunk));
+            if (!body) {
+                return null;
             }
 
-            const content = Buffer.concat(chunks).toString("utf8");
+            const content = await decompressEntry(body, downloadResponse.contentEncoding);
             const value = JSON.parse(content);
+            const lastModified = downloadResponse.lastModified?.getTime();
+
+            if (downloadResponse.etag) {
+                this.track(blobKey, { etag: downloadResponse.etag, lastModified }, value);
+            }
 
             return {
                 value,
-                lastModified: downloadResponse.lastModified?.getTime(),
+                lastModified,
             };
         } catch (error: any) {
+            if (error.statusCode === 304 && known) {
+                return known as WithLastModified<CacheValue<CacheType>>;
+            }
             if (error.statusCode === 404) {
+                this.untrack(blobKey);
                 return null;
             }
-            process.stderr.write(`Failed to get from Azure Blob cache: ${error}\n`);
+            logStorageError("Failed to get from Azure Blob cache", error);
             return null;
         }
     }
@@ -89,31 +176,156 @@ class AzureBlobIncrementalCache implements IncrementalCache {
         value: CacheValue<CacheType>,
         cacheType?: CacheType
     ): Promise<void> {
+        await this.write(key, value, cacheType);
+    }
+
+    async write<CacheType extends CacheEntryType = "cache">(
+        key: string,
+        value: CacheValue<CacheType>,
+        cacheType?: CacheType
+    ): Promise<CacheWriteResult> {
+        const blobKey = this.buildBlobKey(key, cacheType);
+        const tracked = this.entries.get(blobKey);
+
         try {
-            const blobKey = this.buildBlobKey(key, cacheType);
-            const blobClient = this.containerClient.getBlockBlobClient(blobKey);
-
-            const content = JSON.stringify(value);
-            await blobClient.upload(content, content.length, {
-                blobHTTPHeaders: {
-                    blobContentType: "application/json",
-                },
-            });
-        } catch (error) {
-            process.stderr.write(`Failed to set Azure Blob cache: ${error}\n`);
+            const containerClient = this.getContainerClient();
+            const blobClient = containerClient.getBlockBlobClient(blobKey);
+
+            const content = await compressEntry(JSON.stringify(value), this.compression);
+            const uploadResponse = await withResilience("blob", abortSignal =>
+                blobClient.upload(content, content.length, {
+                    abortSignal,
+                    blobHTTPHeaders: {
+                        blobContentType: "application/json",
+                        blobContentEncoding: this.compression === "none" ? undefined : this.compression,
+                    },
+                    // Only overwrite the version this instance last saw
+                    conditions: tracked ? { ifMatch: tracked.etag } : undefined,
+                })
+            );
+
+            const lastModified = uploadResponse.lastModified?.getTime();
+            if (uploadResponse.etag) {
+                this.track(blobKey, { etag: uploadResponse.etag, lastModified }, value);
+            }
+            return { written: true, lastModified };
+        } catch (error: any) {
+            // Changed by another instance since our last read or write
+            if (error.statusCode === 412) {
+                // Another instance wrote this entry while we were rendering, keep its value
+                this.untrack(blobKey);
+                process.stderr.write(`Azure Blob cache write for ${blobKey} lost to a concurrent update, skipped\n`);
+                return { written: false };
+            }
+            logStorageError("Failed to set Azure Blob cache", error);
             throw error;
         }
     }
 
+    /**
+     * Deletes blobs in batches, returns the number of blobs that existed and were deleted.
+     */
+    private async deleteBlobs(blobKeys: string[]): Promise<number> {
+        const containerClient = this.getContainerClient();
+        const batchClient = containerClient.getBlobBatchClient();
+        let deleted = 0;
+
+        for (let i = 0; i < blobKeys.length; i += MAX_BLOB_BATCH_SIZE) {
+            const batch = blobKeys.slice(i, i + MAX_BLOB_BATCH_SIZE);
+            batch.forEach(blobKey => this.untrack(blobKey));
+
+            // Missing blobs fail their sub-request with 404 without failing the batch
+            const response = await withResilience("blob", abortSignal =>
+                batchClient.deleteBlobs(
+                    batch.map(blobKey => containerClient.getBlobClient(blobKey)),
+                    { abortSignal }
+                )
+            );
+            deleted += response.subResponsesSucceededCount;
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Deletes every variant of the key: the page entry, its fetch cache entry and its composable entry,
+     * written by this cache ("incremental" composable cache) or by AzureBlobComposableCache.
+     */
     async delete(key: string): Promise<void> {
+        await this.deleteMany([key]);
+    }
+
+    /**
+     * Deletes every variant of each key, returns the number of blobs deleted.
+     */
+    async deleteMany(keys: string[]): Promise<number> {
         try {
-            const blobKey = this.buildBlobKey(key, "cache");
-            const blobClient = this.containerClient.getBlobClient(blobKey);
-            await blobClient.deleteIfExists();
+            const blobKeys = keys.flatMap(key => [
+                ...CACHE_ENTRY_TYPES.map(cacheType => this.buildBlobKey(key, cacheType)),
+                buildComposableBlobKey(key),
+            ]);
+            return await this.deleteBlobs(blobKeys);
         } catch (error) {
-            process.stderr.write(`Failed to delete from Azure Blob cache: ${error}\n`);
+            logStorageError("Failed to delete from Azure Blob cache", error);
+            return 0;
         }
     }
+
+    /**
+     * Deletes every entry of the current build under the path prefix, in both the page and fetch cache
+     * namespaces. Returns the number of blobs deleted.
+     *
+     * The prefix matches whole path segments: "/blog" deletes "/blog" itself and everything under
+     * "/blog/", but not "/blogger". A prefix ending with "/" only deletes what is under it.
+     *
+     * Fetch cache keys are hashes of the request, not route paths, so purging a route's fetch
+     * entries by prefix only works with keys passed explicitly (e.g. through deleteMany). The same goes
+     * for entries of AzureBlobComposableCache, named after a hash of their key: they are only included
+     * when the whole build is purged (empty prefix or "/").
+     */
+    async deleteByPrefix(prefix: string): Promise<number> {
+        try {
+            const containerClient = this.getContainerClient();
+            const { storage } = getAzureConfig();
+            const buildId = process.env.NEXT_BUILD_ID ?? "";
+            const containerPrefix = storage.keyPrefix || storage.containerName || "";
+            // An empty prefix must not match other build IDs starting with the same characters
+            const keyPrefix = prefix || "/";
+            const prefixes = [
+                path.posix.join(containerPrefix, buildId, keyPrefix),
+                path.posix.join(containerPrefix, "__fetch", buildId, keyPrefix),
+            ];
+            if (keyPrefix === "/") {
+                prefixes.push(path.posix.join(containerPrefix, "__composable", buildId, "/"));
+            }
+
+            const blobKeys: string[] = [];
+
+            for (const blobPrefix of prefixes) {
+                for await (const blob of containerClient.listBlobsFlat({ prefix: blobPrefix })) {
+                    if (isUnderPrefix(blob.name.slice(blobPrefix.length), keyPrefix)) {
+                        blobKeys.push(blob.name);
+                    }
+                }
+            }
+
+            return await this.deleteBlobs(blobKeys);
+        } catch (error) {
+            logStorageError("Failed to delete by prefix from Azure Blob cache", error);
+            return 0;
+        }
+    }
+}
+
+/**
+ * Whether a blob listed under a key prefix belongs to it. A prefix ending with "/" is bounded by the
+ * listing itself, otherwise the rest of the name must start a new path segment or be the entry of
+ * the prefix itself ("" for a fetch entry, ".cache" or ".composable").
+ */
+function isUnderPrefix(rest: string, keyPrefix: string): boolean {
+    return (
+        keyPrefix.endsWith("/") || rest.startsWith("/") || rest === "" || rest === ".cache" || rest === ".composable"
+    );
 }
 
 export default AzureBlobIncrementalCache;
@@ -0,0 +1,66 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { getRedisClient } from "../../config/redis.js";
+import { TEST_REDIS_URL, isRedisReachable } from "../../test/redis.js";
+import AzureRedisIncrementalCache from "./azure-redis.js";
+
+const keyPrefix = `test-${randomUUID()}`;
+
+describe.skipIf(!(await isRedisReachable()))("AzureRedisIncrementalCache", () => {
+    const cache = new AzureRedisIncrementalCache();
+
+    beforeEach(() => {
+        process.env.AZURE_REDIS_URL = TEST_REDIS_URL;
+        process.env.AZURE_STORAGE_KEY_PREFIX = keyPrefix;
+        process.env.NEXT_BUILD_ID = "build-1";
+    });
+
+    afterAll(async () => {
+        const client = await getRedisClient()!;
+        for await (const key of client.scanIterator({ MATCH: `${keyPrefix}:*` })) {
+            await client.del(key);
+        }
+        await client.disconnect();
+    });
+
+    it("returns what was set, with the time of the write", async () => {
+        const before = Date.now();
+        await cache.set("/products/1", { type: "route", body: "hello", meta: { status: 200 } } as any);
+
+        const entry = await cache.get("/products/1");
+
+        expect(entry?.value).toEqual({ type: "route", body: "hello", meta: { status: 200 } });
+        expect(entry?.lastModified).toBeGreaterThanOrEqual(before);
+    });
+
+    it("returns null for a missing key", async () => {
+        expect(await cache.get("/missing")).toBeNull();
+    });
+
+    it("keeps cache types apart", async () => {
+        await cache.set("shared", { value: "fetch" } as any, "fetch");
+
+        expect(await cache.get("shared")).toBeNull();
+        expect((await cache.get("shared", "fetch"))?.value).toEqual({ value: "fetch" });
+    });
+
+    it("deletes every cache type of a key", async () => {
+        await cache.set("/deleted", { type: "route", body: "page" } as any);
+        await cache.set("/deleted", { value: "data" } as any, "fetch");
+        await cache.set("/deleted", { value: "composable" } as any, "composable");
+
+        await cache.delete("/deleted");
+
+        expect(await cache.get("/deleted")).toBeNull();
+        expect(await cache.get("/deleted", "fetch")).toBeNull();
+        expect(await cache.get("/deleted", "composable")).toBeNull();
+    });
+
+    it("doesn't read entries of another build", async () => {
+        await cache.set("/versioned", { type: "route", body: "old" } as any);
+
+        process.env.NEXT_BUILD_ID = "build-2";
+
+        expect(await cache.get("/versioned")).toBeNull();
+    });
+});
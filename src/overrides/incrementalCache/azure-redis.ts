@@ -0,0 +1,82 @@
+import { commandOptions } from "redis";
+import type {
+    CacheEntryType,
+    CacheValue,
+    IncrementalCache,
+    WithLastModified,
+} from "@opennextjs/aws/types/overrides.js";
+import { buildRedisKey, withRedis } from "../../config/redis.js";
+import { logStorageError } from "../../config/resilience.js";
+
+// Cache types stored under a key, all removed by delete
+const CACHE_TYPES: CacheEntryType[] = ["cache", "fetch", "composable"];
+
+/**
+ * Azure Cache for Redis implementation of IncrementalCache.
+ *
+ * Each entry is a hash, keyed by build ID and cache type:
+ * - Key: nextjs:[buildId]:[cacheType]:[key] (e.g., "nextjs:abc123:cache:/products/1")
+ * - value: JSON-serialized cache value
+ * - lastModified: timestamp of the write
+ *
+ * Keys of the live build never expire; deploy sets a TTL on the keys of superseded builds (see expireRedisBuilds).
+ */
+class AzureRedisIncrementalCache implements IncrementalCache {
+    name = "azure-redis";
+
+    async get<CacheType extends CacheEntryType = "cache">(
+        key: string,
+        cacheType?: CacheType
+    ): Promise<WithLastModified<CacheValue<CacheType>> | null> {
+        try {
+            const entry = await withRedis((client, signal) =>
+                client.hGetAll(commandOptions({ signal }), buildRedisKey(cacheType ?? "cache", key))
+            );
+
+            if (!entry.value) {
+                return null;
+            }
+
+            return {
+                value: JSON.parse(entry.value),
+                lastModified: entry.lastModified ? Number(entry.lastModified) : undefined,
+            };
+        } catch (error) {
+            logStorageError("Failed to get from Azure Redis cache", error);
+            return null;
+        }
+    }
+
+    async set<CacheType extends CacheEntryType = "cache">(
+        key: string,
+        value: CacheValue<CacheType>,
+        cacheType?: CacheType
+    ): Promise<void> {
+        try {
+            await withRedis((client, signal) =>
+                client.hSet(commandOptions({ signal }), buildRedisKey(cacheType ?? "cache", key), {
+                    value: JSON.stringify(value),
+                    lastModified: String(Date.now()),
+                })
+            );
+        } catch (error) {
+            logStorageError("Failed to set Azure Redis cache", error);
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await withRedis((client, signal) =>
+                client.del(
+                    commandOptions({ signal }),
+                    CACHE_TYPES.map(cacheType => buildRedisKey(cacheType, key))
+                )
+            );
+        } catch (error) {
+            logStorageError("Failed to delete from Azure Redis cache", error);
+        }
+    }
+}
+
+export default AzureRedisIncrementalCache;
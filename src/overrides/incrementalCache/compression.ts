@@ -0,0 +1,37 @@
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+import type { CacheCompression } from "../../types/index.js";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+/**
+ * Compresses a serialized cache entry, stored with `Content-Encoding: <compression>` unless "none".
+ */
+export async function compressEntry(content: string, compression: CacheCompression): Promise<Buffer> {
+    switch (compression) {
+        case "gzip":
+            return gzip(content);
+        case "br":
+            return brotliCompress(content);
+        default:
+            return Buffer.from(content, "utf8");
+    }
+}
+
+/**
+ * Reverses compressEntry. Blobs without Content-Encoding (written by earlier versions or uploaded
+ * at deploy) are read as plain text.
+ */
+export async function decompressEntry(body: Buffer, contentEncoding?: string): Promise<string> {
+    switch (contentEncoding) {
+        case "gzip":
+            return (await gunzip(body)).toString("utf8");
+        case "br":
+            return (await brotliDecompress(body)).toString("utf8");
+        default:
+            return body.toString("utf8");
+    }
+}
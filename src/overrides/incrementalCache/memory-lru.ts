@@ -0,0 +1,175 @@
+import type {
+    CacheEntryType,
+    CacheValue,
+    IncrementalCache,
+    WithLastModified,
+} from "@opennextjs/aws/types/overrides.js";
+import type { CacheWriteResult, MemoryCacheOptions, ReportingIncrementalCache } from "../../types/index.js";
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_TTL_MS = 60_000;
+
+interface MemoryEntry {
+    value: WithLastModified<unknown>;
+    size: number;
+    expiresAt: number;
+}
+
+/**
+ * Size-bounded LRU map with per-entry TTL.
+ * Relies on Map preserving insertion order: the first key is the least recently used one.
+ */
+export class MemoryLRU {
+    private entries = new Map<string, MemoryEntry>();
+    private totalBytes = 0;
+    readonly maxBytes: number;
+    readonly ttl: number;
+
+    constructor(options: MemoryCacheOptions = {}) {
+        this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+        this.ttl = options.ttl ?? DEFAULT_TTL_MS;
+    }
+
+    get bytes(): number {
+        return this.totalBytes;
+    }
+
+    get(key: string): WithLastModified<unknown> | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            this.delete(key);
+            return undefined;
+        }
+
+        // Move to the most recently used position
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: string, value: WithLastModified<unknown>): void {
+        this.delete(key);
+
+        const size = Buffer.byteLength(JSON.stringify(value.value ?? null));
+        // Entries larger than the whole budget would evict everything else
+        if (size > this.maxBytes) {
+            return;
+        }
+
+        this.entries.set(key, { value, size, expiresAt: Date.now() + this.ttl });
+        this.totalBytes += size;
+
+        for (const [oldestKey] of this.entries) {
+            if (this.totalBytes <= this.maxBytes) {
+                break;
+            }
+            this.delete(oldestKey);
+        }
+    }
+
+    delete(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.totalBytes -= entry.size;
+            this.entries.delete(key);
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.totalBytes = 0;
+    }
+}
+
+/**
+ * Writes through write when the cache reports its outcome, through set otherwise (assumed written).
+ */
+export async function writeEntry<CacheType extends CacheEntryType = "cache">(
+    cache: IncrementalCache,
+    key: string,
+    value: CacheValue<CacheType>,
+    cacheType?: CacheType
+): Promise<CacheWriteResult> {
+    if ("write" in cache && typeof cache.write === "function") {
+        return (cache as ReportingIncrementalCache).write(key, value, cacheType);
+    }
+    await cache.set(key, value, cacheType);
+    return { written: true };
+}
+
+/**
+ * Wraps any IncrementalCache with an in-process LRU tier.
+ *
+ * Reads are served from memory while the entry is younger than the TTL, so hot pages on a warm
+ * instance skip the storage round trip. Writes and deletes go to the wrapped cache first and then
+ * update memory, unless the wrapped cache reports the write as skipped (see writeEntry). Entries
+ * keep the lastModified of the underlying cache, so tag revalidation is
+ * still checked against the tag cache on every request; the TTL only bounds how long a write made
+ * by another instance can go unnoticed.
+ */
+export function withMemoryCache(cache: IncrementalCache, options: MemoryCacheOptions = {}): ReportingIncrementalCache {
+    const memory = new MemoryLRU(options);
+    const memoryKey = (key: string, cacheType: CacheEntryType = "cache") => `${cacheType}:${key}`;
+
+    async function write<CacheType extends CacheEntryType = "cache">(
+        key: string,
+        value: CacheValue<CacheType>,
+        cacheType?: CacheType
+    ): Promise<CacheWriteResult> {
+        let result: CacheWriteResult;
+        try {
+            result = await writeEntry(cache, key, value, cacheType);
+        } catch (error) {
+            memory.delete(memoryKey(key, cacheType));
+            throw error;
+        }
+        // A skipped write left another value in storage, read that one next time
+        if (!result.written) {
+            memory.delete(memoryKey(key, cacheType));
+            return result;
+        }
+        memory.set(memoryKey(key, cacheType), { value, lastModified: result.lastModified ?? Date.now() });
+        return result;
+    }
+
+    return {
+        name: `memory-lru(${cache.name})`,
+
+        async get<CacheType extends CacheEntryType = "cache">(
+            key: string,
+            cacheType?: CacheType
+        ): Promise<WithLastModified<CacheValue<CacheType>> | null> {
+            const cached = memory.get(memoryKey(key, cacheType));
+            if (cached) {
+                return cached as WithLastModified<CacheValue<CacheType>>;
+            }
+
+            const result = await cache.get(key, cacheType);
+            if (result?.value) {
+                memory.set(memoryKey(key, cacheType), result);
+            }
+            return result;
+        },
+
+        async set<CacheType extends CacheEntryType = "cache">(
+            key: string,
+            value: CacheValue<CacheType>,
+            cacheType?: CacheType
+        ): Promise<void> {
+            await write(key, value, cacheType);
+        },
+
+        write,
+
+        async delete(key: string): Promise<void> {
+            await cache.delete(key);
+            for (const cacheType of ["cache", "fetch", "composable"] as const) {
+                memory.delete(memoryKey(key, cacheType));
+            }
+        },
+    };
+}
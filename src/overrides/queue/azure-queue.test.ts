@@ -0,0 +1,54 @@
+import type { Queue } from "@opennextjs/aws/types/overrides.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defineAzureConfig } from "../../config/index.js";
+
+// In-memory stand-ins for the queue and the tag table the override talks to
+const sentMessages: string[] = [];
+const tableRows = new Map<string, Record<string, unknown>>();
+
+vi.mock("../../config/credentials.js", () => ({
+    createQueueClient: () => ({
+        sendMessage: async (message: string) => {
+            sentMessages.push(message);
+        },
+    }),
+    createTableClient: () => ({
+        createEntity: async (entity: Record<string, any>) => {
+            const key = `${entity.partitionKey}|${entity.rowKey}`;
+            if (tableRows.has(key)) {
+                throw Object.assign(new Error("EntityAlreadyExists"), { statusCode: 409 });
+            }
+            tableRows.set(key, { ...entity, expiresAt: BigInt(entity.expiresAt.value), etag: "1" });
+        },
+        getEntity: async (partitionKey: string, rowKey: string) => tableRows.get(`${partitionKey}|${rowKey}`),
+        updateEntity: async () => undefined,
+        deleteEntity: async () => undefined,
+    }),
+}));
+
+function message(deduplicationId: string) {
+    return {
+        MessageBody: { host: "example.com", url: "/products/1" },
+        MessageDeduplicationId: deduplicationId,
+        MessageGroupId: "/products/1",
+    };
+}
+
+describe("AzureQueueRevalidation", () => {
+    beforeEach(() => {
+        sentMessages.length = 0;
+        tableRows.clear();
+        process.env.NEXT_BUILD_ID = "build-1";
+    });
+
+    it("deduplicates messages when the tag cache isn't backed by the tag table", async () => {
+        const config = defineAzureConfig({ tagCache: "azure-redis", queueDeduplicationWindowMs: 60_000 });
+        const queue = (await (config.default.override!.queue as () => Promise<Queue>)()) as Queue;
+
+        await queue.send(message("page-1"));
+        await queue.send(message("page-1"));
+        await queue.send(message("page-2"));
+
+        expect(sentMessages).toHaveLength(2);
+    });
+});
@@ -1,6 +1,13 @@
-import { QueueClient, QueueServiceClient } from "@azure/storage-queue";
+import type { TableClient } from "@azure/data-tables";
+import type { QueueClient } from "@azure/storage-queue";
 import type { Queue, QueueMessage } from "@opennextjs/aws/types/overrides.js";
 import { getAzureConfig } from "../../config/index.js";
+import { createQueueClient, createTableClient } from "../../config/credentials.js";
+import { logStorageError, withResilience } from "../../config/resilience.js";
+import { buildTableKey, encodeTableKey, fromInt64, toInt64 } from "../tagCache/table-keys.js";
+
+// Tag table partition (per build) holding deduplication claims, see claim()
+const DEDUP_PARTITION = "__revalidation";
 
 /**
  * Azure Queue Storage implementation of the revalidation queue.
@@ -10,25 +17,103 @@ import { getAzureConfig } from "../../config/index.js";
  * - revalidatePath('/products/123')
  *
  * The queue receives revalidation messages and triggers re-renders.
+ *
+ * Messages are deduplicated by MessageDeduplicationId (a hash of the path, lastModified and ETag)
+ * within queueDeduplicationWindowMs, so a busy stale page enqueues one revalidation per window.
+ * Claims live in the tag table, which main.bicep provisions whatever the tag cache (Redis and Cosmos DB included).
  */
 class AzureQueueRevalidation implements Queue {
     name = "azure-queue";
     private queueClient!: QueueClient;
+    private tableClient?: TableClient;
 
     constructor() {
         const { storage } = getAzureConfig();
-        const connectionString = storage.connectionString;
-        const queueName = storage.queueName || "nextjsrevalidation";
+        const queueClient = createQueueClient(storage.queueName || "nextjsrevalidation");
 
-        if (connectionString) {
-            const queueServiceClient = QueueServiceClient.fromConnectionString(connectionString);
-            this.queueClient = queueServiceClient.getQueueClient(queueName);
+        if (queueClient) {
+            this.queueClient = queueClient;
+        }
+
+        this.tableClient = createTableClient(storage.tableName || "nextjstags");
+    }
+
+    /**
+     * Claims the deduplication ID for the window, returns false when it is already claimed.
+     * A claim is a row of the tag table, so `cache prune` removes the claims of old builds:
+     * - PartitionKey: "[keyPrefix/]buildId/__revalidation" (encoded)
+     * - RowKey: deduplication ID
+     * - expiresAt: Int64 timestamp after which the ID can be claimed again
+     *
+     * Deduplication fails open: when the table can't be reached the message is sent.
+     */
+    private async claim(deduplicationId: string): Promise<boolean> {
+        const { queue } = getAzureConfig();
+        const tableClient = this.tableClient;
+        if (!tableClient || !(queue.deduplicationWindowMs > 0)) {
+            return true;
+        }
+
+        const now = Date.now();
+        const entity = {
+            partitionKey: buildTableKey(DEDUP_PARTITION),
+            rowKey: encodeTableKey(deduplicationId),
+            expiresAt: toInt64(now + queue.deduplicationWindowMs),
+        };
+
+        try {
+            await withResilience("table", abortSignal => tableClient.createEntity(entity, { abortSignal }));
+            return true;
+        } catch (error: any) {
+            if (error.statusCode !== 409) {
+                logStorageError("Failed to deduplicate revalidation message", error);
+                return true;
+            }
+        }
+
+        try {
+            const existing = await withResilience("table", abortSignal =>
+                tableClient.getEntity<{ expiresAt?: unknown }>(entity.partitionKey, entity.rowKey, { abortSignal })
+            );
+            if (fromInt64(existing.expiresAt) > now) {
+                return false;
+            }
+
+            // The previous claim expired, the ETag condition lets a single instance renew it
+            await withResilience("table", abortSignal =>
+                tableClient.updateEntity(entity, "Replace", { etag: existing.etag, abortSignal })
+            );
+            return true;
+        } catch (error: any) {
+            if (error.statusCode === 412) {
+                return false;
+            }
+            logStorageError("Failed to deduplicate revalidation message", error);
+            return true;
+        }
+    }
+
+    /**
+     * Releases a claim whose message could not be sent, so the next request can retry.
+     */
+    private async release(deduplicationId: string): Promise<void> {
+        try {
+            await this.tableClient?.deleteEntity(buildTableKey(DEDUP_PARTITION), encodeTableKey(deduplicationId));
+        } catch {
+            // The claim expires with the window
         }
     }
 
     async send(message: QueueMessage): Promise<void> {
         if (!this.queueClient) {
-            process.stderr.write("Azure Queue not configured. Skipping revalidation message.\n");
+            process.stderr.write(
+                'Azure Queue not configured. Skipping revalidation message (use queue: "direct" to revalidate in-process).\n'
+            );
+            return;
+        }
+
+        const deduplicationId = message.MessageDeduplicationId;
+        if (deduplicationId && !(await this.claim(deduplicationId))) {
             return;
         }
 
@@ -41,12 +126,17 @@ class AzureQueueRevalidation implements Queue {
                 eTag: message.MessageBody.eTag,
                 deduplicationId: message.MessageDeduplicationId,
                 groupId: message.MessageGroupId,
+                keyPrefix: getAzureConfig().storage.keyPrefix,
             });
 
             // Azure Queue requires base64 encoding
-            await this.queueClient.sendMessage(Buffer.from(messageContent).toString("base64"));
+            const encoded = Buffer.from(messageContent).toString("base64");
+            await withResilience("queue", abortSignal => this.queueClient.sendMessage(encoded, { abortSignal }));
         } catch (error) {
-            process.stderr.write(`Failed to send revalidation message: ${error}\n`);
+            logStorageError("Failed to send revalidation message", error);
+            if (deduplicationId) {
+                await this.release(deduplicationId);
+            }
             throw error;
         }
     }
@@ -0,0 +1,54 @@
+import type { ServiceBusSender } from "@azure/service-bus";
+import type { Queue, QueueMessage } from "@opennextjs/aws/types/overrides.js";
+import { getAzureConfig } from "../../config/index.js";
+import { createServiceBusSender } from "../../config/service-bus.js";
+
+/**
+ * Azure Service Bus implementation of the revalidation queue.
+ *
+ * Unlike Storage Queues, Service Bus honors the grouping and deduplication OpenNext sets on messages:
+ * - MessageGroupId → sessionId: messages of a group are delivered in order, one at a time
+ * - MessageDeduplicationId → messageId: duplicates within the queue's duplicate detection window are dropped
+ *
+ * The queue must be created with sessions and duplicate detection enabled (done by the Bicep template
+ * when "serviceBus" is set in azure.config.json). Messages are consumed by the Service Bus-triggered
+ * revalidation function.
+ */
+class AzureServiceBusRevalidation implements Queue {
+    name = "azure-service-bus";
+    private sender?: ServiceBusSender;
+
+    constructor() {
+        this.sender = createServiceBusSender();
+    }
+
+    async send(message: QueueMessage): Promise<void> {
+        if (!this.sender) {
+            process.stderr.write("Azure Service Bus not configured. Skipping revalidation message.\n");
+            return;
+        }
+
+        try {
+            await this.sender.sendMessages({
+                body: {
+                    host: message.MessageBody.host,
+                    url: message.MessageBody.url,
+                    lastModified: message.MessageBody.lastModified,
+                    eTag: message.MessageBody.eTag,
+                    deduplicationId: message.MessageDeduplicationId,
+                    groupId: message.MessageGroupId,
+                    keyPrefix: getAzureConfig().storage.keyPrefix,
+                },
+                contentType: "application/json",
+                messageId: message.MessageDeduplicationId,
+                // Session-enabled queues reject messages without a session ID
+                sessionId: message.MessageGroupId || message.MessageBody.url,
+            });
+        } catch (error) {
+            process.stderr.write(`Failed to send revalidation message to Service Bus: ${error}\n`);
+            throw error;
+        }
+    }
+}
+
+export default AzureServiceBusRevalidation;
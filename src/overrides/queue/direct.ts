@@ -0,0 +1,81 @@
+import type { Queue, QueueMessage } from "@opennextjs/aws/types/overrides.js";
+import { revalidate } from "../../adapters/revalidation.js";
+import type { DirectQueueOptions } from "../../types/index.js";
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_PENDING = 100;
+
+interface PendingRevalidation {
+    key: string;
+    message: QueueMessage;
+}
+
+/**
+ * In-process revalidation queue, for local development and single-instance hosting.
+ *
+ * Instead of going through a queue and the revalidation function, send() schedules the same
+ * HEAD request the worker makes (see revalidate) in the background of the current instance and
+ * returns immediately:
+ * - at most `concurrency` revalidations run at a time, the others wait in memory
+ * - a page already waiting or being revalidated (same MessageDeduplicationId) is not scheduled twice
+ * - beyond `maxPending` waiting revalidations new ones are dropped, the next stale hit sends them again
+ *
+ * Nothing is persisted: revalidations pending when the instance stops are lost. On the Consumption
+ * plan the instance can be frozen once the response is sent, so prefer the storage queue there.
+ */
+class DirectRevalidationQueue implements Queue {
+    name = "direct";
+    private readonly concurrency: number;
+    private readonly maxPending: number;
+    private readonly scheduled = new Set<string>();
+    private readonly waiting: PendingRevalidation[] = [];
+    private running = 0;
+
+    constructor(options: DirectQueueOptions = {}) {
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.maxPending = options.maxPending ?? DEFAULT_MAX_PENDING;
+    }
+
+    async send(message: QueueMessage): Promise<void> {
+        const { host, url } = message.MessageBody;
+        const key = message.MessageDeduplicationId || `${host}${url}`;
+
+        if (this.scheduled.has(key)) {
+            return;
+        }
+
+        if (this.waiting.length >= this.maxPending) {
+            process.stderr.write(`[Revalidation] Direct queue full, dropping revalidation of ${url}\n`);
+            return;
+        }
+
+        this.scheduled.add(key);
+        this.waiting.push({ key, message });
+        this.drain();
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.waiting.length > 0) {
+            const { key, message } = this.waiting.shift()!;
+            this.running++;
+
+            this.run(message).finally(() => {
+                this.running--;
+                this.scheduled.delete(key);
+                this.drain();
+            });
+        }
+    }
+
+    private async run(message: QueueMessage): Promise<void> {
+        const { host, url, lastModified, eTag } = message.MessageBody;
+
+        try {
+            await revalidate({ host, url, lastModified, eTag });
+        } catch (error: any) {
+            process.stderr.write(`[Revalidation] ✗ ${error.message}\n`);
+        }
+    }
+}
+
+export default DirectRevalidationQueue;
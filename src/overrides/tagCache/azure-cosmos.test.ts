@@ -0,0 +1,79 @@
+import type { OperationInput } from "@azure/cosmos";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import AzureCosmosTagCache, { buildCosmosTagItem } from "./azure-cosmos.js";
+
+// In-memory stand-in for the container, applying Create and Patch like Cosmos DB does
+const items = new Map<string, Record<string, any>>();
+// Status the next bulk operations fail with, e.g. 403 for a missing role assignment
+let failWith: number | undefined;
+
+function apply(operation: OperationInput): number {
+    if (failWith) {
+        return failWith;
+    }
+    if (operation.operationType === "Create") {
+        const key = `${operation.partitionKey}|${operation.resourceBody.id}`;
+        if (items.has(key)) {
+            return 409;
+        }
+        items.set(key, { ...operation.resourceBody });
+        return 201;
+    }
+    if (operation.operationType === "Patch") {
+        const item = items.get(`${operation.partitionKey}|${operation.id}`);
+        if (!item) {
+            return 404;
+        }
+        for (const { path, value } of (operation.resourceBody as any).operations) {
+            item[path.slice(1)] = value;
+        }
+        return 200;
+    }
+    throw new Error(`Unexpected ${operation.operationType} operation`);
+}
+
+vi.mock("../../config/cosmos.js", async importOriginal => ({
+    ...(await importOriginal<typeof import("../../config/cosmos.js")>()),
+    createCosmosContainer: () => ({
+        items: {
+            executeBulkOperations: async (operations: OperationInput[]) =>
+                operations.map(operationInput => ({ operationInput, response: { statusCode: apply(operationInput) } })),
+        },
+    }),
+}));
+
+describe("AzureCosmosTagCache", () => {
+    beforeEach(() => {
+        items.clear();
+        failWith = undefined;
+        process.env.NEXT_BUILD_ID = "build-1";
+    });
+
+    it("creates new items and patches existing ones, keeping their ttl", async () => {
+        // Item of a superseded build, given a ttl by deploy
+        const existing = { ...buildCosmosTagItem("build-1", "news", "/blog", 1), ttl: 604800 };
+        items.set(`build-1|${existing.id}`, existing);
+        const cache = new AzureCosmosTagCache();
+
+        await cache.writeTags([
+            { tag: "news", path: "/blog", revalidatedAt: 2 },
+            { tag: "sports", path: "/blog", revalidatedAt: 3 },
+        ]);
+
+        expect(items.get(`build-1|${existing.id}`)).toMatchObject({ revalidatedAt: 2, ttl: 604800 });
+        expect(items.get(`build-1|${buildCosmosTagItem("build-1", "sports", "/blog", 3).id}`)).toMatchObject({
+            revalidatedAt: 3,
+        });
+    });
+
+    it("logs failed operations instead of ignoring them", async () => {
+        const cache = new AzureCosmosTagCache();
+        const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+        failWith = 403;
+
+        await cache.writeTags([{ tag: "news", path: "/blog", revalidatedAt: 2 }]);
+
+        expect(stderr).toHaveBeenCalledWith(expect.stringContaining("first with status 403"));
+        stderr.mockRestore();
+    });
+});
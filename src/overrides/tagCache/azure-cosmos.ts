@@ -0,0 +1,154 @@
+import type { Container, CreateOperationInput, OperationInput } from "@azure/cosmos";
+import type { OriginalTagCache, OriginalTagCacheWriteInput } from "@opennextjs/aws/types/overrides.js";
+import { namespaceKey } from "../../config/index.js";
+import { createCosmosContainer, executeBulk } from "../../config/cosmos.js";
+import { StorageNotConfiguredError, logStorageError, withResilience } from "../../config/resilience.js";
+import { encodeTableKey } from "./table-keys.js";
+
+export interface CosmosTagItem {
+    id: string;
+    buildId: string;
+    tag: string;
+    path: string;
+    revalidatedAt: number;
+}
+
+/**
+ * Builds the item stored for a tag/path pair.
+ * Item IDs may not contain "/", "\", "?" or "#", so both parts are encoded (see table-keys.ts);
+ * encoded keys never contain "|", which keeps the ID unambiguous.
+ */
+export function buildCosmosTagItem(buildId: string, tag: string, path: string, revalidatedAt: number): CosmosTagItem {
+    return {
+        id: `${encodeTableKey(tag)}|${encodeTableKey(path)}`,
+        buildId,
+        tag,
+        path,
+        revalidatedAt,
+    };
+}
+
+/**
+ * Azure Cosmos DB (NoSQL API) implementation of TagCache ("original" mode).
+ *
+ * One item per tag/path pair, partitioned by build ID (partition key path: /buildId).
+ * Every lookup (by tag, by path, last modified) is a query within the partition of the current
+ * build, using the automatic index on tag and path, instead of a cross-partition scan.
+ * Items never expire on their own; deploy sets a ttl on the items of superseded builds (see expireCosmosBuilds).
+ * writeTags patches revalidatedAt and only creates missing items, so an instance still serving a
+ * superseded build doesn't clear that ttl by replacing the item.
+ */
+class AzureCosmosTagCache implements OriginalTagCache {
+    mode = "original" as const;
+    name = "azure-cosmos";
+    private container?: Container;
+
+    constructor() {
+        this.container = createCosmosContainer();
+    }
+
+    private getContainer(): Container {
+        if (!this.container) {
+            throw new StorageNotConfiguredError("Azure Cosmos DB");
+        }
+        return this.container;
+    }
+
+    // Apps sharing a container get their own partitions through storage.keyPrefix
+    private getBuildId(): string {
+        return namespaceKey(process.env.NEXT_BUILD_ID ?? "");
+    }
+
+    private async query<T>(query: string, parameters: { name: string; value: string | number }[]): Promise<T[]> {
+        const container = this.getContainer();
+        const { resources } = await withResilience("cosmos", abortSignal =>
+            container.items.query<T>({ query, parameters }, { partitionKey: this.getBuildId(), abortSignal }).fetchAll()
+        );
+        return resources;
+    }
+
+    async getByTag(tag: string): Promise<string[]> {
+        try {
+            return await this.query<string>("SELECT VALUE c.path FROM c WHERE c.tag = @tag", [
+                { name: "@tag", value: tag },
+            ]);
+        } catch (error) {
+            logStorageError("Failed to get by tag from Azure Cosmos DB", error);
+            return [];
+        }
+    }
+
+    async getByPath(path: string): Promise<string[]> {
+        try {
+            return await this.query<string>("SELECT VALUE c.tag FROM c WHERE c.path = @path", [
+                { name: "@path", value: path },
+            ]);
+        } catch (error) {
+            logStorageError("Failed to get by path from Azure Cosmos DB", error);
+            return [];
+        }
+    }
+
+    async getLastModified(path: string, lastModified?: number): Promise<number> {
+        try {
+            const [count] = await this.query<number>(
+                "SELECT VALUE COUNT(1) FROM c WHERE c.path = @path AND c.revalidatedAt > @since",
+                [
+                    { name: "@path", value: path },
+                    { name: "@since", value: lastModified ?? 0 },
+                ]
+            );
+
+            // If any tag has been revalidated since lastModified, return -1 to force revalidation
+            if (count > 0) {
+                return -1;
+            }
+
+            return lastModified ?? Date.now();
+        } catch (error) {
+            logStorageError("Failed to get last modified from Azure Cosmos DB", error);
+            return lastModified ?? Date.now();
+        }
+    }
+
+    async writeTags(tags: OriginalTagCacheWriteInput[]): Promise<void> {
+        try {
+            const container = this.getContainer();
+            const buildId = this.getBuildId();
+            const items = new Map(
+                tags.map(({ tag, path, revalidatedAt }) => {
+                    const item = buildCosmosTagItem(buildId, tag, path, revalidatedAt ?? Date.now());
+                    return [item.id, item];
+                })
+            );
+            const patch = (ids: string[]): OperationInput[] =>
+                ids.map(id => ({
+                    operationType: "Patch",
+                    id,
+                    partitionKey: buildId,
+                    resourceBody: {
+                        operations: [{ op: "set", path: "/revalidatedAt", value: items.get(id)!.revalidatedAt }],
+                    },
+                }));
+            const create = (ids: string[]): OperationInput[] =>
+                ids.map(id => ({
+                    operationType: "Create",
+                    partitionKey: buildId,
+                    resourceBody: { ...items.get(id)! },
+                }));
+            const idsOf = (operations: OperationInput[]) =>
+                operations.map(operation =>
+                    "id" in operation ? operation.id : String((operation as CreateOperationInput).resourceBody.id)
+                );
+
+            // 404: the tag/path pair is new, 409 on create: another instance created it in the meantime
+            const missing = idsOf(await executeBulk(container, patch([...items.keys()]), [404]));
+            const conflicts = idsOf(await executeBulk(container, create(missing), [409]));
+            await executeBulk(container, patch(conflicts));
+        } catch (error) {
+            logStorageError("Failed to write tags to Azure Cosmos DB", error);
+        }
+    }
+}
+
+export default AzureCosmosTagCache;
@@ -0,0 +1,55 @@
+import { randomUUID } from "node:crypto";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { getRedisClient } from "../../config/redis.js";
+import { TEST_REDIS_URL, isRedisReachable } from "../../test/redis.js";
+import AzureRedisTagCache from "./azure-redis.js";
+
+const keyPrefix = `test-${randomUUID()}`;
+
+describe.skipIf(!(await isRedisReachable()))("AzureRedisTagCache", () => {
+    const tagCache = new AzureRedisTagCache();
+
+    beforeEach(() => {
+        process.env.AZURE_REDIS_URL = TEST_REDIS_URL;
+        process.env.AZURE_STORAGE_KEY_PREFIX = keyPrefix;
+        process.env.NEXT_BUILD_ID = "build-1";
+    });
+
+    afterAll(async () => {
+        const client = await getRedisClient()!;
+        for await (const key of client.scanIterator({ MATCH: `${keyPrefix}:*` })) {
+            await client.del(key);
+        }
+        await client.disconnect();
+    });
+
+    it("looks up paths by tag and tags by path", async () => {
+        await tagCache.writeTags([
+            { tag: "products", path: "/products/1", revalidatedAt: 1 },
+            { tag: "products", path: "/products/2", revalidatedAt: 1 },
+            { tag: "product-1", path: "/products/1", revalidatedAt: 1 },
+        ]);
+
+        expect((await tagCache.getByTag("products")).sort()).toEqual(["/products/1", "/products/2"]);
+        expect((await tagCache.getByPath("/products/1")).sort()).toEqual(["product-1", "products"]);
+        expect(await tagCache.getByTag("unknown")).toEqual([]);
+    });
+
+    it("reports a path as stale once one of its tags is revalidated after the entry", async () => {
+        await tagCache.writeTags([{ tag: "posts", path: "/posts", revalidatedAt: 1000 }]);
+
+        expect(await tagCache.getLastModified("/posts", 2000)).toBe(2000);
+
+        await tagCache.writeTags([{ tag: "posts", path: "/posts", revalidatedAt: 3000 }]);
+
+        expect(await tagCache.getLastModified("/posts", 2000)).toBe(-1);
+    });
+
+    it("doesn't read tags of another build", async () => {
+        await tagCache.writeTags([{ tag: "old", path: "/old", revalidatedAt: 1 }]);
+
+        process.env.NEXT_BUILD_ID = "build-2";
+
+        expect(await tagCache.getByTag("old")).toEqual([]);
+    });
+});
@@ -0,0 +1,82 @@
+import { commandOptions } from "redis";
+import type { OriginalTagCache, OriginalTagCacheWriteInput } from "@opennextjs/aws/types/overrides.js";
+import { buildRedisKey, withRedis } from "../../config/redis.js";
+import { logStorageError } from "../../config/resilience.js";
+
+/**
+ * Azure Cache for Redis implementation of TagCache ("original" mode).
+ *
+ * Schema (keys are namespaced by build ID, see buildRedisKey):
+ * - nextjs:[buildId]:tag:[tag]: set of paths carrying the tag, for getByTag
+ * - nextjs:[buildId]:path:[path]: hash of tag → revalidatedAt, for getByPath and getLastModified
+ *
+ * Both lookups are single-key reads, unlike a table scan by path.
+ */
+class AzureRedisTagCache implements OriginalTagCache {
+    mode = "original" as const;
+    name = "azure-redis";
+
+    async getByTag(tag: string): Promise<string[]> {
+        try {
+            return await withRedis((client, signal) =>
+                client.sMembers(commandOptions({ signal }), buildRedisKey("tag", tag))
+            );
+        } catch (error) {
+            logStorageError("Failed to get by tag from Azure Redis", error);
+            return [];
+        }
+    }
+
+    async getByPath(path: string): Promise<string[]> {
+        try {
+            return await withRedis((client, signal) =>
+                client.hKeys(commandOptions({ signal }), buildRedisKey("path", path))
+            );
+        } catch (error) {
+            logStorageError("Failed to get by path from Azure Redis", error);
+            return [];
+        }
+    }
+
+    async getLastModified(path: string, lastModified?: number): Promise<number> {
+        try {
+            const revalidatedAt = await withRedis((client, signal) =>
+                client.hVals(commandOptions({ signal }), buildRedisKey("path", path))
+            );
+            const since = lastModified ?? 0;
+
+            // If any tag has been revalidated since lastModified, return -1 to force revalidation
+            if (revalidatedAt.some(value => Number(value) > since)) {
+                return -1;
+            }
+
+            return lastModified ?? Date.now();
+        } catch (error) {
+            logStorageError("Failed to get last modified from Azure Redis", error);
+            return lastModified ?? Date.now();
+        }
+    }
+
+    async writeTags(tags: OriginalTagCacheWriteInput[]): Promise<void> {
+        try {
+            // Commands sent together are pipelined by the client; unlike MULTI they can be aborted
+            await withRedis((client, signal) =>
+                Promise.all(
+                    tags.flatMap(({ tag, path, revalidatedAt }) => [
+                        client.sAdd(commandOptions({ signal }), buildRedisKey("tag", tag), path),
+                        client.hSet(
+                            commandOptions({ signal }),
+                            buildRedisKey("path", path),
+                            tag,
+                            String(revalidatedAt ?? Date.now())
+                        ),
+                    ])
+                )
+            );
+        } catch (error) {
+            logStorageError("Failed to write tags to Azure Redis", error);
+        }
+    }
+}
+
+export default AzureRedisTagCache;
@@ -0,0 +1,211 @@
+import { odata, type TableClient, type TableEntity, type TransactionAction } from "@azure/data-tables";
+import type { NextModeTagCache, NextModeTagCacheWriteInput } from "@opennextjs/aws/types/overrides.js";
+import { getAzureConfig, namespaceKey } from "../../config/index.js";
+import { createTableClient } from "../../config/credentials.js";
+import { StorageNotConfiguredError, logStorageError, withResilience } from "../../config/resilience.js";
+import { encodeTableKey, decodeTableKey, fromInt64, toInt64 } from "./table-keys.js";
+
+// Table Storage allows at most 15 discrete comparisons per filter (1 for PartitionKey + 14 RowKeys)
+const MAX_ROW_KEYS_PER_QUERY = 14;
+// Entity group transactions are limited to 100 operations on a single partition
+const MAX_TRANSACTION_SIZE = 100;
+
+interface TagEntity {
+    partitionKey: string;
+    rowKey: string;
+    revalidatedAt?: unknown;
+    stale?: unknown;
+    expire?: unknown;
+}
+
+interface TagItem {
+    revalidatedAt: number;
+    stale?: number;
+    expire?: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Azure Table Storage implementation of TagCache in "nextMode".
+ *
+ * Stores one row per tag with the time it was last revalidated, instead of one row per
+ * tag/path combination. Nothing has to be pre-populated at deploy time, and checking a page
+ * only needs point reads for its tags.
+ *
+ * Schema (keys are encoded with encodeTableKey, see table-keys.ts):
+ * - PartitionKey: build ID, prefixed with storage.keyPrefix if set (e.g., "abc123" or "shop/abc123" → "shop:2Fabc123")
+ * - RowKey: tag (e.g., "_N_T_/products/[id]" → "_N_T_:2Fproducts:2F:5Bid:5D")
+ * - revalidatedAt: Int64 timestamp
+ * - stale / expire: optional Int64 timestamps
+ */
+class AzureTableNextModeTagCache implements NextModeTagCache {
+    mode = "nextMode" as const;
+    name = "azure-table-nextmode";
+    private tableClient?: TableClient;
+
+    constructor() {
+        const { storage } = getAzureConfig();
+        const tableClient = createTableClient(storage.tableName || "nextjstags");
+
+        if (tableClient) {
+            this.tableClient = tableClient;
+        }
+    }
+
+    private getTableClient(): TableClient {
+        if (!this.tableClient) {
+            throw new StorageNotConfiguredError("Azure Table Storage");
+        }
+        return this.tableClient;
+    }
+
+    private getPartitionKey(): string {
+        return encodeTableKey(namespaceKey(process.env.NEXT_BUILD_ID ?? ""));
+    }
+
+    /**
+     * Batched point reads: RowKeys of the build partition are queried in groups,
+     * so N tags cost ceil(N / 14) requests instead of N.
+     */
+    private async getTagItems(tags: string[]): Promise<Map<string, TagItem>> {
+        const items = new Map<string, TagItem>();
+        const uniqueTags = [...new Set(tags)];
+        const partitionKey = this.getPartitionKey();
+        const tableClient = this.getTableClient();
+
+        await Promise.all(
+            chunk(uniqueTags, MAX_ROW_KEYS_PER_QUERY).map(async group => {
+                const rowKeyFilter = group.map(tag => odata`RowKey eq ${encodeTableKey(tag)}`).join(" or ");
+                const entities = await withResilience("table", async abortSignal => {
+                    const pages = tableClient.listEntities<TagEntity>({
+                        abortSignal,
+                        queryOptions: { filter: `${odata`PartitionKey eq ${partitionKey}`} and (${rowKeyFilter})` },
+                    });
+
+                    const entities: TagEntity[] = [];
+                    for await (const entity of pages) {
+                        entities.push(entity);
+                    }
+                    return entities;
+                });
+
+                for (const entity of entities) {
+                    items.set(decodeTableKey(entity.rowKey), {
+                        revalidatedAt: fromInt64(entity.revalidatedAt),
+                        stale: entity.stale !== undefined ? fromInt64(entity.stale) : undefined,
+                        expire: entity.expire !== undefined ? fromInt64(entity.expire) : undefined,
+                    });
+                }
+            })
+        );
+
+        return items;
+    }
+
+    async getLastRevalidated(tags: string[]): Promise<number> {
+        if (tags.length === 0) {
+            return 0;
+        }
+
+        try {
+            const items = await this.getTagItems(tags);
+            let lastRevalidated = 0;
+            for (const item of items.values()) {
+                lastRevalidated = Math.max(lastRevalidated, item.revalidatedAt);
+            }
+            return lastRevalidated;
+        } catch (error) {
+            logStorageError("Failed to get last revalidated from Azure Table", error);
+            return 0;
+        }
+    }
+
+    async hasBeenRevalidated(tags: string[], lastModified?: number): Promise<boolean> {
+        if (tags.length === 0) {
+            return false;
+        }
+
+        try {
+            const items = await this.getTagItems(tags);
+            const since = lastModified ?? 0;
+            const now = Date.now();
+
+            for (const item of items.values()) {
+                // An expired tag forces revalidation, even when it was revalidated before the page was generated
+                if (item.expire !== undefined && item.expire <= now && item.expire > since) {
+                    return true;
+                }
+                if (item.revalidatedAt > since) {
+                    return true;
+                }
+            }
+
+            return false;
+        } catch (error) {
+            logStorageError("Failed to check revalidated tags in Azure Table", error);
+            return false;
+        }
+    }
+
+    async isStale(tags: string[], lastModified?: number): Promise<boolean> {
+        if (tags.length === 0) {
+            return false;
+        }
+
+        try {
+            const items = await this.getTagItems(tags);
+            const since = lastModified ?? 0;
+
+            for (const item of items.values()) {
+                if (item.stale !== undefined && item.revalidatedAt > since && item.stale >= since) {
+                    return true;
+                }
+            }
+
+            return false;
+        } catch (error) {
+            logStorageError("Failed to check stale tags in Azure Table", error);
+            return false;
+        }
+    }
+
+    async writeTags(tags: NextModeTagCacheWriteInput[]): Promise<void> {
+        try {
+            const tableClient = this.getTableClient();
+            const partitionKey = this.getPartitionKey();
+            const revalidatedAt = Date.now();
+
+            // Later writes for the same tag win, a transaction can't touch a row twice
+            const entities = new Map<string, TableEntity>();
+            for (const input of tags) {
+                const tag = typeof input === "string" ? input : input.tag;
+                const stale = typeof input === "string" ? undefined : input.stale;
+                const expire = typeof input === "string" ? undefined : input.expire;
+
+                entities.set(tag, {
+                    partitionKey,
+                    rowKey: encodeTableKey(tag),
+                    revalidatedAt: toInt64(revalidatedAt),
+                    ...(stale !== undefined ? { stale: toInt64(stale) } : {}),
+                    ...(expire !== undefined ? { expire: toInt64(expire) } : {}),
+                });
+            }
+
+            for (const group of chunk([...entities.values()], MAX_TRANSACTION_SIZE)) {
+                const actions: TransactionAction[] = group.map(entity => ["upsert", entity, "Replace"]);
+                await withResilience("table", abortSignal => tableClient.submitTransaction(actions, { abortSignal }));
+            }
+        } catch (error) {
+            logStorageError("Failed to write tags to Azure Table", error);
+        }
+    }
+}
+
+export default AzureTableNextModeTagCache;
@@ -1,6 +1,9 @@
-import { TableClient, AzureNamedKeyCredential } from "@azure/data-tables";
+import { odata, type TableClient } from "@azure/data-tables";
 import type { OriginalTagCache, OriginalTagCacheWriteInput } from "@opennextjs/aws/types/overrides.js";
 import { getAzureConfig } from "../../config/index.js";
+import { createTableClient } from "../../config/credentials.js";
+import { StorageNotConfiguredError, logStorageError, withResilience } from "../../config/resilience.js";
+import { buildTableKey, parseTableKey, toInt64 } from "./table-keys.js";
 
 /**
  * Azure Table Storage implementation of TagCache.
@@ -8,119 +11,125 @@ import { getAzureConfig } from "../../config/index.js";
  * Stores tag-to-path mappings for Next.js revalidateTag/revalidatePath.
  * Uses the "original" mode which requires pre-population but offers fast reads.
  *
- * Schema:
- * - PartitionKey: tag (e.g., "buildId/product")
- * - RowKey: path (e.g., "buildId/products/123")
- * - revalidatedAt: timestamp
+ * Schema (keys are encoded with encodeTableKey, see table-keys.ts):
+ * - PartitionKey: tag (e.g., "buildId/product" → "buildId:2Fproduct")
+ * - RowKey: path (e.g., "buildId/products/[id]" → "buildId:2Fproducts:2F:5Bid:5D")
+ * - revalidatedAt: Int64 timestamp
  */
 class AzureTableTagCache implements OriginalTagCache {
     mode = "original" as const;
     name = "azure-table";
-    private tableClient!: TableClient;
+    private tableClient?: TableClient;
 
     constructor() {
         const { storage } = getAzureConfig();
-        const connectionString = storage.connectionString;
-        const accountName = storage.accountName;
-        const accountKey = storage.accountKey;
-        const tableName = storage.tableName || "nextjstags";
-
-        if (connectionString) {
-            this.tableClient = TableClient.fromConnectionString(connectionString, tableName);
-        } else if (accountName && accountKey) {
-            const credential = new AzureNamedKeyCredential(accountName, accountKey);
-            this.tableClient = new TableClient(`https://${accountName}.table.core.windows.net`, tableName, credential);
+        const tableClient = createTableClient(storage.tableName || "nextjstags");
+
+        if (tableClient) {
+            this.tableClient = tableClient;
         }
     }
 
-    private buildKey(key: string): string {
-        const { NEXT_BUILD_ID } = process.env;
-        return `${NEXT_BUILD_ID}/${key}`;
+    private getTableClient(): TableClient {
+        if (!this.tableClient) {
+            throw new StorageNotConfiguredError("Azure Table Storage");
+        }
+        return this.tableClient;
     }
 
     async getByTag(tag: string): Promise<string[]> {
         try {
-            const queryKey = this.buildKey(tag);
-            const entities = this.tableClient.listEntities({
-                queryOptions: { filter: `PartitionKey eq '${queryKey}'` },
-            });
-
-            const paths: string[] = [];
-            for await (const entity of entities) {
-                if (entity.rowKey) {
-                    const { NEXT_BUILD_ID } = process.env;
-                    const path = entity.rowKey.toString().replace(`${NEXT_BUILD_ID}/`, "");
-                    paths.push(path);
+            const tableClient = this.getTableClient();
+            return await withResilience("table", async abortSignal => {
+                const entities = tableClient.listEntities({
+                    abortSignal,
+                    queryOptions: { filter: odata`PartitionKey eq ${buildTableKey(tag)}` },
+                });
+
+                const paths: string[] = [];
+                for await (const entity of entities) {
+                    if (entity.rowKey) {
+                        paths.push(parseTableKey(entity.rowKey));
+                    }
                 }
-            }
 
-            return paths;
+                return paths;
+            });
         } catch (error) {
-            process.stderr.write(`Failed to get by tag from Azure Table: ${error}\n`);
+            logStorageError("Failed to get by tag from Azure Table", error);
             return [];
         }
     }
 
     async getByPath(path: string): Promise<string[]> {
         try {
-            const queryKey = this.buildKey(path);
-            const entities = this.tableClient.listEntities({
-                queryOptions: { filter: `RowKey eq '${queryKey}'` },
-            });
-
-            const tags: string[] = [];
-            for await (const entity of entities) {
-                if (entity.partitionKey) {
-                    const { NEXT_BUILD_ID: buildId } = process.env;
-                    const tag = entity.partitionKey.toString().replace(`${buildId}/`, "");
-                    tags.push(tag);
+            const tableClient = this.getTableClient();
+            return await withResilience("table", async abortSignal => {
+                const entities = tableClient.listEntities({
+                    abortSignal,
+                    queryOptions: { filter: odata`RowKey eq ${buildTableKey(path)}` },
+                });
+
+                const tags: string[] = [];
+                for await (const entity of entities) {
+                    if (entity.partitionKey) {
+                        tags.push(parseTableKey(entity.partitionKey));
+                    }
                 }
-            }
 
-            return tags;
+                return tags;
+            });
         } catch (error) {
-            process.stderr.write(`Failed to get by path from Azure Table: ${error}\n`);
+            logStorageError("Failed to get by path from Azure Table", error);
             return [];
         }
     }
 
     async getLastModified(path: string, lastModified?: number): Promise<number> {
         try {
-            const queryKey = this.buildKey(path);
-            const entities = this.tableClient.listEntities({
-                queryOptions: {
-                    filter: `RowKey eq '${queryKey}' and RevalidatedAt gt ${lastModified ?? 0}L`,
-                },
+            const tableClient = this.getTableClient();
+            const since = Math.trunc(lastModified ?? 0);
+            const revalidated = await withResilience("table", async abortSignal => {
+                const entities = tableClient.listEntities({
+                    abortSignal,
+                    queryOptions: {
+                        filter: odata`RowKey eq ${buildTableKey(path)} and revalidatedAt gt ${since}L`,
+                    },
+                });
+
+                for await (const entity of entities) {
+                    if (entity.revalidatedAt) {
+                        return true;
+                    }
+                }
+                return false;
             });
 
             // If any tag has been revalidated since lastModified, return -1 to force revalidation
-            for await (const entity of entities) {
-                if (entity.revalidatedAt) {
-                    return -1;
-                }
-            }
-
-            return lastModified ?? Date.now();
+            return revalidated ? -1 : (lastModified ?? Date.now());
         } catch (error) {
-            process.stderr.write(`Failed to get last modified from Azure Table: ${error}\n`);
+            logStorageError("Failed to get last modified from Azure Table", error);
             return lastModified ?? Date.now();
         }
     }
 
     async writeTags(tags: OriginalTagCacheWriteInput[]): Promise<void> {
         try {
+            const tableClient = this.getTableClient();
             // Batch write tag-path relationships
             for (const { tag, path, revalidatedAt } of tags) {
                 const entity = {
-                    partitionKey: this.buildKey(tag),
-                    rowKey: this.buildKey(path),
-                    revalidatedAt: revalidatedAt ?? Date.now(),
+                    partitionKey: buildTableKey(tag),
+                    rowKey: buildTableKey(path),
+                    revalidatedAt: toInt64(revalidatedAt ?? Date.now()),
                 };
 
-                await this.tableClient.upsertEntity(entity, "Merge");
+                await withResilience("table", abortSignal =>
+                    tableClient.upsertEntity(entity, "Merge", { abortSignal })
+                );
             }
         } catch (error) {
-            process.stderr.write(`Failed to write tags to Azure Table: ${error}\n`);
+            logStorageError("Failed to write tags to Azure Table", error);
         }
     }
 }
@@ -0,0 +1,102 @@
+import type { TableClient, TableEntity } from "@azure/data-tables";
+import { namespaceKey } from "../../config/index.js";
+
+/**
+ * Key encoding for Azure Table Storage.
+ *
+ * PartitionKey and RowKey may not contain "/", "\", "#", "?" or control characters,
+ * but tags and paths routinely do (e.g. "/products/[id]"). Keys are percent-encoded with
+ * encodeURIComponent and every "%" is swapped for ":". encodeURIComponent always escapes ":",
+ * so the result never contains a literal ":" and decoding is unambiguous.
+ *
+ * Example: "abc123//products/[id]" → "abc123:2F:2Fproducts:2F:5Bid:5D"
+ */
+export function encodeTableKey(value: string): string {
+    return encodeURIComponent(value).replace(/%/g, ":");
+}
+
+export function decodeTableKey(value: string): string {
+    return decodeURIComponent(value.replace(/:/g, "%"));
+}
+
+/**
+ * Builds the encoded key for a tag or path, namespaced by build ID (and storage.keyPrefix if set).
+ */
+export function buildTableKey(key: string, buildId = process.env.NEXT_BUILD_ID): string {
+    return encodeTableKey(namespaceKey(`${buildId}/${key}`));
+}
+
+/**
+ * Reverses buildTableKey, returning the original tag or path.
+ */
+export function parseTableKey(encodedKey: string, buildId = process.env.NEXT_BUILD_ID): string {
+    const decoded = decodeTableKey(encodedKey);
+    const prefix = namespaceKey(`${buildId}/`);
+    return decoded.startsWith(prefix) ? decoded.slice(prefix.length) : decoded;
+}
+
+/**
+ * Timestamps are stored as Int64 so they can be compared with "gt 123L" filters.
+ * Plain JS numbers above 2^31 would otherwise be written as Edm.Double.
+ */
+export function toInt64(value: number): { value: string; type: "Int64" } {
+    return { value: String(Math.trunc(value)), type: "Int64" };
+}
+
+/**
+ * Reads an Int64 property, which the SDK returns as a bigint (or as { value, type } on older versions).
+ */
+export function fromInt64(value: unknown): number {
+    if (typeof value === "bigint" || typeof value === "string" || typeof value === "number") {
+        return Number(value);
+    }
+    if (value && typeof value === "object" && "value" in value) {
+        return Number((value as { value: string }).value);
+    }
+    return 0;
+}
+
+/**
+ * Keys written before encoding was introduced are raw "buildId/key" strings.
+ * Encoded keys never contain "/", so its presence identifies a legacy row.
+ */
+export function isLegacyTableKey(key: string): boolean {
+    return key.includes("/");
+}
+
+/**
+ * Rewrites rows stored with legacy unencoded keys using the encoded format,
+ * then deletes the original rows. Returns the number of migrated rows.
+ */
+export async function migrateLegacyTableKeys(tableClient: TableClient): Promise<number> {
+    let migrated = 0;
+
+    for await (const entity of tableClient.listEntities<TableEntity>()) {
+        const { partitionKey, rowKey } = entity;
+        if (!isLegacyTableKey(partitionKey) && !isLegacyTableKey(rowKey)) {
+            continue;
+        }
+
+        // etag and timestamp are service-managed and must not be written back
+        const properties: Record<string, unknown> = { ...entity };
+        delete properties.etag;
+        delete properties.timestamp;
+
+        await tableClient.upsertEntity(
+            {
+                ...properties,
+                // Legacy rows stored revalidatedAt as a Double, filters compare against Int64
+                ...(typeof properties.revalidatedAt === "number"
+                    ? { revalidatedAt: toInt64(properties.revalidatedAt) }
+                    : {}),
+                partitionKey: isLegacyTableKey(partitionKey) ? encodeTableKey(partitionKey) : partitionKey,
+                rowKey: isLegacyTableKey(rowKey) ? encodeTableKey(rowKey) : rowKey,
+            },
+            "Merge"
+        );
+        await tableClient.deleteEntity(partitionKey, rowKey);
+        migrated++;
+    }
+
+    return migrated;
+}
@@ -0,0 +1,13 @@
+import { Buffer } from "node:buffer";
+
+// Bytes 0x00-0xFF, most of which aren't valid UTF-8 on their own
+const ALL_BYTES = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+
+/** Start of a PDF file with a binary comment line, followed by every byte value */
+export const PDF_BYTES = Buffer.concat([Buffer.from("%PDF-1.7\n%\xE2\xE3\xCF\xD3\n", "latin1"), ALL_BYTES]);
+
+/** PNG signature and IHDR chunk header, followed by every byte value */
+export const PNG_BYTES = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52]),
+    ALL_BYTES,
+]);
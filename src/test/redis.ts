@@ -0,0 +1,34 @@
+import net from "node:net";
+
+/**
+ * Redis server used by the Redis tests (REDIS_URL, default: a local redis-server).
+ * The tests are skipped when nothing listens on the default, and fail when REDIS_URL is set (as in CI)
+ * but unreachable, so a missing server can't silently skip them.
+ */
+export const TEST_REDIS_URL = process.env.REDIS_URL || "redis://127.0.0.1:6379";
+
+export async function isRedisReachable(url = TEST_REDIS_URL): Promise<boolean> {
+    const reachable = await canConnect(url);
+    if (!reachable && process.env.REDIS_URL) {
+        throw new Error(`REDIS_URL is set but no Redis server is reachable at ${url}`);
+    }
+    return reachable;
+}
+
+function canConnect(url: string): Promise<boolean> {
+    const { hostname, port } = new URL(url);
+
+    return new Promise(resolve => {
+        const socket = net.connect({ host: hostname, port: Number(port || 6379) });
+        socket.setTimeout(500);
+        socket.once("connect", () => {
+            socket.destroy();
+            resolve(true);
+        });
+        socket.once("timeout", () => {
+            socket.destroy();
+            resolve(false);
+        });
+        socket.once("error", () => resolve(false));
+    });
+}
@@ -1,5 +1,12 @@
 import type { OpenNextConfig, RoutePreloadingBehavior } from "@opennextjs/aws/types/open-next.js";
-import type { IncrementalCache, TagCache, Queue, ImageLoader } from "@opennextjs/aws/types/overrides.js";
+import type {
+    CacheEntryType,
+    CacheValue,
+    IncrementalCache,
+    TagCache,
+    Queue,
+    ImageLoader,
+} from "@opennextjs/aws/types/overrides.js";
 
 export type AzureDeploymentTarget = "functions" | "static-web-apps" | "container-apps";
 
@@ -13,15 +20,103 @@ export interface AzureStorageConfig {
     connectionString?: string;
     accountName?: string;
     accountKey?: string;
+    /** Client ID of a user-assigned managed identity. Omit to use the system-assigned identity. */
+    managedIdentityClientId?: string;
     containerName?: string;
     tableName?: string;
     queueName?: string;
+    /**
+     * Namespace for cache keys, tag rows, queue messages and cached images, so several apps can
+     * share one storage account. Also set as the AZURE_STORAGE_KEY_PREFIX app setting.
+     */
+    keyPrefix?: string;
+}
+
+export interface ResiliencePolicy {
+    /** Time in milliseconds after which a storage request is aborted (default: 5000) */
+    timeoutMs?: number;
+    /** Retries of timed out or failed (5xx, 408, 429) requests (default: 2) */
+    maxRetries?: number;
+    /** Delay before the first retry in milliseconds, doubled on every retry (default: 100) */
+    retryDelayMs?: number;
+    /** Consecutive failed operations after which storage is skipped and reads are cache misses (default: 5) */
+    circuitBreakerThreshold?: number;
+    /** Time in milliseconds before a request is attempted again once the circuit is open (default: 30000) */
+    circuitBreakerResetMs?: number;
+}
+
+export type CacheCompression = "gzip" | "br" | "none";
+
+export interface MemoryCacheOptions {
+    /** Maximum size of the cached values in bytes (default: 50 MB) */
+    maxBytes?: number;
+    /** Time in milliseconds an entry is served from memory before it is read from storage again (default: 60000) */
+    ttl?: number;
+}
+
+export interface CacheWriteResult {
+    /** false when the write was skipped, e.g. lost to a concurrent update */
+    written: boolean;
+    /** Last modification time of the stored entry in milliseconds */
+    lastModified?: number;
+}
+
+/**
+ * IncrementalCache whose writes report their outcome (set is typed as void by OpenNext).
+ * withMemoryCache uses it to keep memory in line with storage.
+ */
+export interface ReportingIncrementalCache extends IncrementalCache {
+    /** Same as set, resolves with the outcome of the write */
+    write<CacheType extends CacheEntryType = "cache">(
+        key: string,
+        value: CacheValue<CacheType>,
+        cacheType?: CacheType
+    ): Promise<CacheWriteResult>;
+}
+
+export type StaticAssetsMode = "redirect" | "proxy" | "pass-through";
+
+export interface StaticAssetsOptions {
+    /**
+     * How the function answers requests for files of .open-next/assets (default: "redirect"):
+     * "redirect" to the assets host, "proxy" the blob through the function, or "pass-through" to Next.js
+     */
+    mode?: StaticAssetsMode;
+    /** Origin assets are redirected to, e.g. a CDN in front of the assets container (default: the container URL) */
+    host?: string;
+}
+
+/** Azure Functions Node.js programming model of the generated app */
+export type FunctionsModel = "v3" | "v4";
+
+export interface DirectQueueOptions {
+    /** Maximum number of revalidations running at the same time (default: 2) */
+    concurrency?: number;
+    /** Maximum number of revalidations waiting to run, further ones are dropped (default: 100) */
+    maxPending?: number;
 }
 
 export interface AzureConfig {
-    incrementalCache?: "azure-blob" | IncrementalCache;
-    tagCache?: "azure-table" | TagCache;
-    queue?: "azure-queue" | Queue;
+    incrementalCache?: "azure-blob" | "azure-redis" | IncrementalCache;
+    /**
+     * Store for "use cache" entries, "incremental" keeps them in the incremental cache
+     * (default: "azure-blob" with the "azure-blob" incremental cache, "incremental" otherwise)
+     */
+    composableCache?: "azure-blob" | "incremental" | IncrementalCache;
+    /** In-memory LRU tier in front of the incremental cache, per Function instance */
+    memoryCache?: boolean | MemoryCacheOptions;
+    /** Compression of incremental cache entries written to Blob Storage (default: "gzip") */
+    cacheCompression?: CacheCompression;
+    tagCache?: "azure-table" | "azure-table-nextmode" | "azure-redis" | "azure-cosmos" | TagCache;
+    queue?: "azure-queue" | "azure-service-bus" | "direct" | Queue;
+    /** Options of the "direct" queue, which revalidates in-process without a queue or worker */
+    directQueue?: DirectQueueOptions;
+    /**
+     * Time in milliseconds during which identical revalidation messages (same page, lastModified and ETag)
+     * are sent only once (default: 10000, 0 disables deduplication). The "azure-service-bus" queue
+     * relies on the duplicate detection window of the Service Bus queue instead.
+     */
+    queueDeduplicationWindowMs?: number;
     imageLoader?: "azure-blob" | ImageLoader | (() => Promise<ImageLoader>);
     enableImageOptimizationCache?: boolean;
     routePreloadingBehavior?: RoutePreloadingBehavior;
@@ -33,5 +128,14 @@ export interface AzureConfig {
     packageJsonPath?: string;
     deployment?: AzureDeploymentConfig;
     storage?: AzureStorageConfig;
+    /** Timeout, retry and circuit breaker policy for the storage-backed overrides */
+    resilience?: ResiliencePolicy;
     applicationInsights?: boolean;
+    /**
+     * "v4" registers the functions from a generated main.mjs instead of function.json folders,
+     * required for response streaming and Flex Consumption plans (default: "v3")
+     */
+    functionsModel?: FunctionsModel;
+    /** Routing of static assets (public folder and _next/static) reaching the function */
+    staticAssets?: StaticAssetsOptions;
 }